@@ -0,0 +1,196 @@
+// History of the shell commands a session ran through the Bash tool
+import type { ClaudeRawEntry, Round, ToolCall } from '../shared/round-types.ts';
+import { formatLatency } from '../shared/tool-calls.ts';
+
+export const COMMAND_FORMATS = ['text', 'json', 'sh'] as const;
+export type CommandFormat = (typeof COMMAND_FORMATS)[number];
+
+// Characters of output kept per command unless told otherwise (0 keeps everything)
+export const DEFAULT_MAX_OUTPUT = 500;
+
+export interface BashCommand {
+  roundNumber: number;
+  toolUseId: string;
+  uuid: string | null; // Entry of the tool_use
+  sidechain: string | null; // Description of the subagent run that issued it, null for the main agent
+  command: string;
+  description: string | null;
+  cwd: string | null; // Working directory recorded on the tool_use entry
+  background: boolean; // run_in_background: the result only acknowledges the start
+  timestamp: string | null;
+  durationMs: number | null; // tool_use to tool_result
+  status: ToolCall['status'];
+  isError: boolean;
+  exitCode: number | null; // 0 for successful calls, parsed from the result of failed ones
+  interrupted: boolean;
+  output: string | null;
+  outputLength: number; // Length before truncation
+}
+
+export interface CommandHistoryOptions {
+  maxOutput?: number;
+}
+
+// Claude Code starts the result of a failed command with its exit code
+const EXIT_CODE_PATTERN = /^(?:Error: )?Exit code (-?\d+)/;
+
+function truncateOutput(output: string, maxOutput: number): string {
+  if (maxOutput <= 0 || output.length <= maxOutput) {
+    return output;
+  }
+  return `${output.substring(0, maxOutput)}... [${output.length - maxOutput} more characters]`;
+}
+
+function getExitCode(call: ToolCall): number | null {
+  if (call.status !== 'completed') {
+    return null;
+  }
+  const match = EXIT_CODE_PATTERN.exec(call.output ?? '');
+  if (match) {
+    return parseInt(match[1], 10);
+  }
+  return call.isError ? null : 0;
+}
+
+function isInterrupted(entry: ClaudeRawEntry | undefined): boolean {
+  const result = entry?.toolUseResult;
+  return typeof result === 'object' && result !== null && (result as Record<string, unknown>).interrupted === true;
+}
+
+function toBashCommand(roundNumber: number, call: ToolCall, entries: Map<string, ClaudeRawEntry>, sidechain: string | null, maxOutput: number): BashCommand | null {
+  const input = (call.input ?? {}) as Record<string, unknown>;
+  if (call.name !== 'Bash' || typeof input.command !== 'string') {
+    return null;
+  }
+  const toolUseEntry = call.toolUseUuid ? entries.get(call.toolUseUuid) : undefined;
+  return {
+    roundNumber,
+    toolUseId: call.id,
+    uuid: call.toolUseUuid,
+    sidechain,
+    command: input.command,
+    description: typeof input.description === 'string' ? input.description : null,
+    cwd: typeof toolUseEntry?.cwd === 'string' ? toolUseEntry.cwd : null,
+    background: input.run_in_background === true,
+    timestamp: call.startTimestamp,
+    durationMs: call.latencyMs,
+    status: call.status,
+    isError: call.isError,
+    exitCode: getExitCode(call),
+    interrupted: isInterrupted(call.toolResultUuid ? entries.get(call.toolResultUuid) : undefined),
+    output: call.output === null ? null : truncateOutput(call.output, maxOutput),
+    outputLength: call.output?.length ?? 0,
+  };
+}
+
+/**
+ * Every Bash tool call of the rounds, subagent runs included, in the order they were issued
+ */
+export function extractBashCommands(rounds: Round[], options: CommandHistoryOptions = {}): BashCommand[] {
+  const maxOutput = options.maxOutput ?? DEFAULT_MAX_OUTPUT;
+  const commands: BashCommand[] = [];
+
+  for (const round of rounds) {
+    const sidechains = round.sidechains ?? [];
+    const entries = new Map<string, ClaudeRawEntry>();
+    for (const entry of [...round.entries, ...sidechains.flatMap((sidechain) => sidechain.entries)]) {
+      entries.set(entry.uuid, JSON.parse(entry.rawContent) as ClaudeRawEntry);
+    }
+
+    const roundCommands = [
+      ...(round.toolCalls ?? []).map((call) => toBashCommand(round.roundNumber, call, entries, null, maxOutput)),
+      ...sidechains.flatMap((sidechain) =>
+        sidechain.toolCalls.map((call) => toBashCommand(round.roundNumber, call, entries, sidechain.description ?? sidechain.subagentType ?? 'subagent', maxOutput))
+      ),
+    ].filter((command): command is BashCommand => command !== null);
+    // Stable sort: calls without a timestamp keep their place
+    roundCommands.sort((a, b) => (a.timestamp && b.timestamp ? a.timestamp.localeCompare(b.timestamp) : 0));
+    commands.push(...roundCommands);
+  }
+  return commands;
+}
+
+/**
+ * Outcome of a command in a few words, e.g. "exit 0", "exit 2", "interrupted", "no result"
+ */
+export function describeOutcome(command: BashCommand): string {
+  if (command.status !== 'completed') return 'no result';
+  if (command.interrupted) return 'interrupted';
+  if (command.exitCode !== null) return `exit ${command.exitCode}`;
+  return command.isError ? 'error' : 'ok';
+}
+
+function isFailed(command: BashCommand): boolean {
+  return command.isError || command.interrupted || (command.exitCode ?? 0) !== 0;
+}
+
+function quoteShell(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+function formatHeading(command: BashCommand): string {
+  const parts = [`Round #${command.roundNumber}`];
+  if (command.sidechain) parts.push(`subagent: ${command.sidechain}`);
+  if (command.timestamp) parts.push(command.timestamp);
+  if (command.durationMs !== null) parts.push(formatLatency(command.durationMs));
+  parts.push(describeOutcome(command));
+  if (command.background) parts.push('background');
+  return parts.join(' · ');
+}
+
+/**
+ * Readable report: one block per command with its heading, the command and its (truncated) output
+ */
+export function formatCommandsText(commands: BashCommand[], filePath: string): string {
+  const failed = commands.filter(isFailed).length;
+  const lines = [`🐚 ${commands.length} Bash command${commands.length === 1 ? '' : 's'} in ${filePath}${failed > 0 ? ` (${failed} failed)` : ''}`, '─'.repeat(80)];
+  for (const command of commands) {
+    lines.push(`${isFailed(command) ? '❌' : command.status === 'completed' ? '✅' : '⏳'} ${formatHeading(command)}`);
+    if (command.description) lines.push(`   # ${command.description}`);
+    if (command.cwd) lines.push(`   cwd: ${command.cwd}`);
+    lines.push(...command.command.split('\n').map((line, i) => `   ${i === 0 ? '$' : '>'} ${line}`));
+    if (command.output) {
+      lines.push(...command.output.split('\n').map((line) => `     ${line}`));
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Shell script that runs the commands again in order. Each command is preceded by
+ * comments saying where and how it ran, and by a cd whenever the working directory changed;
+ * background commands are started in a background subshell.
+ */
+export function formatCommandsScript(commands: BashCommand[], filePath: string): string {
+  const lines = [
+    '#!/usr/bin/env bash',
+    `# Bash commands run by the agent in ${filePath}`,
+    '# In the order they were issued, failed ones included. Review before running.',
+    '',
+  ];
+  let cwd: string | null = null;
+  for (const command of commands) {
+    lines.push(`# ${formatHeading(command)}`);
+    if (command.description) {
+      lines.push(`# ${command.description.replace(/\s+/g, ' ').trim()}`);
+    }
+    if (command.cwd && command.cwd !== cwd) {
+      lines.push(`cd ${quoteShell(command.cwd)}`);
+      cwd = command.cwd;
+    }
+    // Background commands must not hold up the ones after them
+    lines.push(command.background ? `(\n${command.command}\n) &` : command.command, '');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format the history as a text report, JSON or a shell script
+ */
+export function formatCommands(commands: BashCommand[], filePath: string, format: CommandFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(commands, null, 2);
+  }
+  return format === 'sh' ? formatCommandsScript(commands, filePath) : formatCommandsText(commands, filePath);
+}
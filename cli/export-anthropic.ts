@@ -0,0 +1,196 @@
+// Export rounds as Anthropic Messages API request bodies
+import type { ClaudeRawEntry, Round } from '../shared/round-types.ts';
+import { getContentBlocks, getRoundMessages, getSystemPrompt } from './export-openai.ts';
+import { toolResultText } from '../shared/tool-calls.ts';
+
+export type AnthropicContentBlock = Record<string, unknown> & { type: string };
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+export interface AnthropicMessagesRequest {
+  model?: string;
+  max_tokens: number;
+  thinking?: { type: 'enabled'; budget_tokens: number };
+  system?: string;
+  messages: AnthropicMessage[];
+}
+
+export interface AnthropicExportOptions {
+  stripThinking?: boolean; // Drop thinking and redacted_thinking blocks
+  maxTokens?: number; // max_tokens of every request (default: room for the thinking budget and an answer)
+  model?: string; // Model of rounds that have none of their own (e.g. only synthetic messages)
+}
+
+// Sent as max_tokens, which the Messages API requires, on top of any thinking budget
+export const DEFAULT_MAX_TOKENS = 8192;
+
+// Smallest budget_tokens the Messages API accepts
+const MIN_THINKING_BUDGET = 1024;
+
+// Thinking budgets Claude Code uses for the levels it records in thinkingMetadata
+const THINKING_BUDGETS: Record<string, number> = { low: 4000, medium: 10000, high: 31999 };
+
+/**
+ * Keep only the fields the Messages API accepts for a content block.
+ * Returns null for blocks that cannot be sent (unknown types, empty text).
+ */
+function toRequestBlock(block: Record<string, unknown>, stripThinking: boolean): AnthropicContentBlock | null {
+  switch (block.type) {
+    case 'text':
+      return typeof block.text === 'string' && block.text.trim() !== '' ? { type: 'text', text: block.text } : null;
+    case 'image':
+      return { type: 'image', source: block.source };
+    case 'thinking':
+      return stripThinking ? null : { type: 'thinking', thinking: block.thinking ?? '', signature: block.signature ?? '' };
+    case 'redacted_thinking':
+      return stripThinking ? null : { type: 'redacted_thinking', data: block.data ?? '' };
+    case 'tool_use':
+      return { type: 'tool_use', id: block.id, name: block.name, input: block.input ?? {} };
+    case 'tool_result':
+      return {
+        type: 'tool_result',
+        tool_use_id: block.tool_use_id,
+        content: Array.isArray(block.content) ? block.content : toolResultText(block.content),
+        ...(block.is_error ? { is_error: true } : {}),
+      };
+    default:
+      return null;
+  }
+}
+
+function getModel(entries: ClaudeRawEntry[]): string | undefined {
+  for (const entry of entries) {
+    const model = (entry.message as Record<string, unknown> | undefined)?.model;
+    // Claude Code marks locally generated messages (e.g. API errors) with "<synthetic>"
+    if (entry.type === 'assistant' && typeof model === 'string' && model !== '<synthetic>') {
+      return model;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Thinking budget of the round's prompt, or null when thinking was off or its level is unknown
+ */
+function getThinkingBudget(entries: ClaudeRawEntry[]): number | null {
+  for (const entry of entries) {
+    const metadata = entry.thinkingMetadata;
+    if (entry.type !== 'user' || !metadata) continue;
+    return metadata.disabled || typeof metadata.level !== 'string' ? null : (THINKING_BUDGETS[metadata.level] ?? null);
+  }
+  return null;
+}
+
+/**
+ * Convert a round to a Messages API request body.
+ * Streamed chunks are merged, consecutive entries of the same role are folded into one
+ * turn so user and assistant strictly alternate, and tool_result blocks are moved to the
+ * front of their user turn. Meta entries are dropped. The model is taken from the first
+ * assistant message of the round, else from options.model. Unless thinking is stripped,
+ * the thinking level of the prompt becomes a thinking budget, kept below max_tokens.
+ */
+export function roundToAnthropicRequest(
+  round: Round,
+  systemEntries: ClaudeRawEntry[] = [],
+  options: AnthropicExportOptions = {}
+): AnthropicMessagesRequest {
+  const entries = getRoundMessages(round);
+  const messages: AnthropicMessage[] = [];
+
+  for (const entry of entries) {
+    if (entry.isMeta || (entry.type !== 'user' && entry.type !== 'assistant')) continue;
+    const content = getContentBlocks(entry)
+      .map((block) => toRequestBlock(block, options.stripThinking ?? false))
+      .filter((block): block is AnthropicContentBlock => block !== null);
+    if (content.length === 0) continue;
+
+    const previous = messages[messages.length - 1];
+    if (previous?.role === entry.type) {
+      previous.content.push(...content);
+    } else {
+      messages.push({ role: entry.type, content });
+    }
+  }
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      // The API requires tool results before any other content of the turn
+      message.content.sort((a, b) => Number(b.type === 'tool_result') - Number(a.type === 'tool_result'));
+    }
+  }
+
+  const model = getModel(entries) ?? options.model;
+  const system = getSystemPrompt(systemEntries);
+  let budget = options.stripThinking ? null : getThinkingBudget(entries);
+  const maxTokens = options.maxTokens ?? (budget ?? 0) + DEFAULT_MAX_TOKENS;
+  if (budget !== null && budget >= maxTokens) {
+    // A smaller --max-tokens wins; below the API's minimum budget thinking is left off
+    budget = maxTokens - 1 >= MIN_THINKING_BUDGET ? maxTokens - 1 : null;
+  }
+  return {
+    ...(model ? { model } : {}),
+    max_tokens: maxTokens,
+    ...(budget !== null ? { thinking: { type: 'enabled' as const, budget_tokens: budget } } : {}),
+    ...(system ? { system } : {}),
+    messages,
+  };
+}
+
+/**
+ * Check that a request body is valid for the Messages API: it names a model, its thinking
+ * budget is below max_tokens, it starts with a user turn,
+ * roles alternate, every tool_use is answered by a tool_result in the next user turn and
+ * every tool_result answers a tool_use of the previous assistant turn.
+ * Returns the problems found (empty if valid).
+ */
+export function validateAnthropicRequest(request: AnthropicMessagesRequest): string[] {
+  const problems: string[] = [];
+  const { messages } = request;
+
+  if (messages.length === 0) {
+    return ['no messages'];
+  }
+  if (!request.model) {
+    problems.push('no model (pass --model)');
+  }
+  if (request.thinking && request.thinking.budget_tokens >= request.max_tokens) {
+    problems.push(`thinking budget ${request.thinking.budget_tokens} is not below max_tokens ${request.max_tokens}`);
+  }
+  if (messages[0].role !== 'user') {
+    problems.push('first message is not a user turn');
+  }
+  if (!messages.some((message) => message.role === 'assistant')) {
+    problems.push('no assistant message');
+  }
+
+  let pending = new Set<string>();
+  messages.forEach((message, i) => {
+    if (i > 0 && messages[i - 1].role === message.role) {
+      problems.push(`messages ${i - 1} and ${i} are both ${message.role} turns`);
+    }
+
+    if (message.role === 'user') {
+      for (const block of message.content) {
+        if (block.type !== 'tool_result') continue;
+        const id = String(block.tool_use_id);
+        if (!pending.delete(id)) {
+          problems.push(`tool_result ${id} does not answer a tool_use of the previous turn`);
+        }
+      }
+    }
+    for (const id of pending) {
+      problems.push(`tool_use ${id} has no tool_result`);
+    }
+    pending = new Set(
+      message.role === 'assistant' ? message.content.filter((block) => block.type === 'tool_use').map((block) => String(block.id)) : []
+    );
+  });
+  for (const id of pending) {
+    problems.push(`tool_use ${id} has no tool_result`);
+  }
+
+  return problems;
+}
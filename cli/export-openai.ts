@@ -0,0 +1,141 @@
+// Export rounds as OpenAI chat-completions fine-tuning records
+import type { ClaudeRawEntry, Round } from '../shared/round-types.ts';
+import { mergeMessageChunks } from '../shared/round-extractor.ts';
+import { toolResultText } from '../shared/tool-calls.ts';
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON-encoded tool input
+  };
+}
+
+export type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content?: string; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface OpenAIRecord {
+  messages: OpenAIMessage[];
+}
+
+/**
+ * Content blocks of an entry; a plain string content becomes a single text block
+ */
+export function getContentBlocks(entry: ClaudeRawEntry): Array<Record<string, unknown>> {
+  const content = entry.message?.content;
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+  return Array.isArray(content) ? (content as Array<Record<string, unknown>>) : [];
+}
+
+/**
+ * Text of the system entries, joined into a single system prompt
+ */
+export function getSystemPrompt(systemEntries: ClaudeRawEntry[]): string {
+  return systemEntries
+    .map((entry) => getContentBlocks(entry).filter((b) => b.type === 'text').map((b) => b.text as string).join('\n'))
+    .filter((text) => text.trim() !== '')
+    .join('\n\n');
+}
+
+/**
+ * Parse the raw entries of a round and merge streamed chunks into one entry per API turn
+ */
+export function getRoundMessages(round: Round): ClaudeRawEntry[] {
+  return mergeMessageChunks(round.entries.map((entry) => JSON.parse(entry.rawContent) as ClaudeRawEntry));
+}
+
+/**
+ * Convert a round to OpenAI chat messages.
+ * tool_use blocks become assistant `tool_calls` and tool_result blocks become `tool`
+ * messages; thinking, meta entries and Claude Code system notices are dropped and
+ * images are replaced by an "[image]" placeholder.
+ */
+export function roundToOpenAIMessages(round: Round, systemEntries: ClaudeRawEntry[] = []): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [];
+  const systemPrompt = getSystemPrompt(systemEntries);
+  if (systemPrompt) {
+    messages.push({ role: 'system', content: systemPrompt });
+  }
+
+  for (const entry of getRoundMessages(round)) {
+    if (entry.isMeta) continue;
+    const blocks = getContentBlocks(entry);
+
+    if (entry.type === 'user') {
+      // Tool responses come first so they directly follow the assistant turn that called them
+      const text: string[] = [];
+      for (const block of blocks) {
+        if (block.type === 'tool_result') {
+          messages.push({ role: 'tool', tool_call_id: String(block.tool_use_id), content: toolResultText(block.content) });
+        } else if (block.type === 'text' && typeof block.text === 'string') {
+          text.push(block.text);
+        } else if (block.type === 'image') {
+          text.push('[image]');
+        }
+      }
+      if (text.length > 0) {
+        messages.push({ role: 'user', content: text.join('\n') });
+      }
+    } else if (entry.type === 'assistant') {
+      const text = blocks.filter((b) => b.type === 'text' && typeof b.text === 'string').map((b) => b.text as string);
+      const toolCalls: OpenAIToolCall[] = blocks
+        .filter((b) => b.type === 'tool_use')
+        .map((b) => ({
+          id: String(b.id),
+          type: 'function',
+          function: { name: String(b.name), arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      if (text.length === 0 && toolCalls.length === 0) continue;
+
+      messages.push({
+        role: 'assistant',
+        ...(text.length > 0 ? { content: text.join('\n\n') } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Check that a conversation is a valid fine-tuning example: it has an assistant turn,
+ * every tool call is answered by a tool message before the next non-tool message, and
+ * every tool message answers a call. Returns the problems found (empty if valid).
+ */
+export function validateOpenAIMessages(messages: OpenAIMessage[]): string[] {
+  const problems: string[] = [];
+  let pending = new Set<string>();
+
+  const flushPending = () => {
+    for (const id of pending) {
+      problems.push(`tool call ${id} has no tool response`);
+    }
+    pending = new Set();
+  };
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      if (!pending.delete(message.tool_call_id)) {
+        problems.push(`tool response ${message.tool_call_id} does not answer a preceding tool call`);
+      }
+      continue;
+    }
+    flushPending();
+    if (message.role === 'assistant' && message.tool_calls) {
+      pending = new Set(message.tool_calls.map((call) => call.id));
+    }
+  }
+  flushPending();
+
+  if (!messages.some((message) => message.role === 'assistant')) {
+    problems.push('no assistant message');
+  }
+  return problems;
+}
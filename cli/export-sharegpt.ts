@@ -0,0 +1,141 @@
+// Export rounds as ShareGPT conversation records
+import fs from 'fs/promises';
+import type { ClaudeRawEntry, Round } from '../shared/round-types.ts';
+import { getContentBlocks, getRoundMessages, getSystemPrompt } from './export-openai.ts';
+import { toolResultText } from '../shared/tool-calls.ts';
+
+export type ShareGPTRole = 'system' | 'human' | 'gpt';
+
+export interface ShareGPTTurn {
+  from: ShareGPTRole;
+  value: string;
+  thinking?: string; // Thinking of a gpt turn, with includeThinking
+}
+
+export interface ShareGPTRecord {
+  conversations: ShareGPTTurn[];
+}
+
+/**
+ * Text templates for tool blocks.
+ * toolCall placeholders: {name}, {id}, {input} (pretty-printed JSON)
+ * toolResult placeholders: {name}, {id}, {output}, {status} ("success" or "error")
+ */
+export interface ShareGPTTemplates {
+  toolCall: string;
+  toolResult: string;
+}
+
+export interface ShareGPTOptions {
+  templates?: ShareGPTTemplates;
+  includeThinking?: boolean;
+}
+
+export const DEFAULT_SHAREGPT_TEMPLATES: ShareGPTTemplates = {
+  toolCall: '<tool_call name="{name}">\n{input}\n</tool_call>',
+  toolResult: '<tool_result name="{name}" status="{status}">\n{output}\n</tool_result>',
+};
+
+/**
+ * Load templates from a JSON file such as {"toolCall": "...", "toolResult": "..."}.
+ * Missing keys fall back to the defaults.
+ */
+export async function loadShareGPTTemplates(filePath: string): Promise<ShareGPTTemplates> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid template file ${filePath}: ${(error as Error).message}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Template file must contain a JSON object: ${filePath}`);
+  }
+
+  const templates = { ...DEFAULT_SHAREGPT_TEMPLATES };
+  for (const key of Object.keys(templates) as Array<keyof ShareGPTTemplates>) {
+    const value = (parsed as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      throw new Error(`${filePath}: "${key}" must be a string`);
+    }
+    templates[key] = value;
+  }
+  return templates;
+}
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Flatten a round into ShareGPT turns: user text and tool results become `human` turns,
+ * assistant text and tool calls become `gpt` turns, rendered through the templates.
+ * Consecutive entries of the same role are joined into one turn so human and gpt alternate.
+ * Meta entries and images are dropped; thinking goes to the `thinking` field of the gpt
+ * turn when includeThinking is set.
+ */
+export function roundToShareGPT(round: Round, systemEntries: ClaudeRawEntry[] = [], options: ShareGPTOptions = {}): ShareGPTRecord {
+  const templates = options.templates ?? DEFAULT_SHAREGPT_TEMPLATES;
+  const conversations: ShareGPTTurn[] = [];
+  const toolNames = new Map<string, string>();
+
+  const systemPrompt = getSystemPrompt(systemEntries);
+  if (systemPrompt) {
+    conversations.push({ from: 'system', value: systemPrompt });
+  }
+
+  for (const entry of getRoundMessages(round)) {
+    if (entry.isMeta || (entry.type !== 'user' && entry.type !== 'assistant')) continue;
+
+    const parts: string[] = [];
+    const thinking: string[] = [];
+    for (const block of getContentBlocks(entry)) {
+      if (block.type === 'text' && typeof block.text === 'string' && block.text.trim() !== '') {
+        parts.push(block.text);
+      } else if (block.type === 'thinking' && typeof block.thinking === 'string') {
+        thinking.push(block.thinking);
+      } else if (block.type === 'tool_use') {
+        const name = String(block.name);
+        toolNames.set(String(block.id), name);
+        parts.push(fillTemplate(templates.toolCall, { name, id: String(block.id), input: JSON.stringify(block.input ?? {}, null, 2) }));
+      } else if (block.type === 'tool_result') {
+        const id = String(block.tool_use_id);
+        parts.push(
+          fillTemplate(templates.toolResult, {
+            name: toolNames.get(id) ?? 'unknown',
+            id,
+            output: toolResultText(block.content),
+            status: block.is_error ? 'error' : 'success',
+          })
+        );
+      }
+    }
+
+    const includedThinking = options.includeThinking ? thinking : [];
+    if (parts.length === 0 && includedThinking.length === 0) continue;
+
+    const from: ShareGPTRole = entry.type === 'user' ? 'human' : 'gpt';
+    const previous = conversations[conversations.length - 1];
+    if (previous?.from === from) {
+      previous.value = [previous.value, ...parts].filter((part) => part !== '').join('\n\n');
+      if (includedThinking.length > 0) {
+        previous.thinking = [previous.thinking ?? '', ...includedThinking].filter((part) => part !== '').join('\n\n');
+      }
+    } else {
+      conversations.push({
+        from,
+        value: parts.join('\n\n'),
+        ...(includedThinking.length > 0 ? { thinking: includedThinking.join('\n\n') } : {}),
+      });
+    }
+  }
+
+  return { conversations };
+}
+
+/**
+ * True if the record holds an actual exchange (a human and a gpt turn)
+ */
+export function isShareGPTConversation(record: ShareGPTRecord): boolean {
+  return record.conversations.some((turn) => turn.from === 'human') && record.conversations.some((turn) => turn.from === 'gpt');
+}
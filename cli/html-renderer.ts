@@ -1,6 +1,13 @@
 // HTML renderer for Claude Code rounds
-import type { Round, ClaudeRawEntry } from './types.ts';
+import type { Round, ClaudeRawEntry, RoundTodos, RoundUsage, SidechainTrajectory, TodoStatus, ToolCall } from '../shared/round-types.ts';
+import type { DiffCounts, DiffStatus, RoundDiff, StepDiff, TrajectoryDiff } from './trajectory-diff.ts';
 import * as path from 'node:path';
+import { formatLatency } from '../shared/tool-calls.ts';
+import { describeToolCall } from './trajectory-diff.ts';
+import { createPatchTracker } from './round-patches.ts';
+import type { RoundPatch } from './round-patches.ts';
+import { formatCost, formatTokenCount, formatUsage, sumUsage, totalTokens } from '../shared/usage.ts';
+import { todoProgress } from '../shared/todo-timeline.ts';
 
 interface RenderOptions {
   title?: string;
@@ -8,6 +15,13 @@ interface RenderOptions {
   sourceFile?: string;
 }
 
+// Lookups shared by all entries of a round: nested subagent runs and paired tool calls
+interface RenderContext {
+  sidechainsByToolUseId: Map<string, SidechainTrajectory[]>;
+  toolCallsById: Map<string, ToolCall>;
+  stepStatusById?: Map<string, DiffStatus>; // Diff pages: how each tool call compares with the other trajectory
+}
+
 interface GroupedEntry {
   id: string | null;
   entries: ClaudeRawEntry[];
@@ -149,6 +163,8 @@ function isEmptyEntry(grouped: GroupedEntry): boolean {
       } else if (itemType === 'thinking') {
         // Support both old format (text) and new format (thinking field)
         if ((item.thinking as string)?.trim() || (item.text as string)?.trim()) return false;
+      } else if (itemType === 'redacted_thinking') {
+        if (item.data) return false;
       }
     }
     return true;
@@ -157,10 +173,64 @@ function isEmptyEntry(grouped: GroupedEntry): boolean {
   return false;
 }
 
+/**
+ * Generate HTML for a subagent run as a collapsible nested conversation
+ */
+function renderSidechain(sidechain: SidechainTrajectory): string {
+  const context: RenderContext = {
+    sidechainsByToolUseId: new Map(),
+    toolCallsById: new Map((sidechain.toolCalls ?? []).map(call => [call.id, call])),
+  };
+  const entriesHtml = groupEntriesById(sidechain.entries).map(g => renderGroupedEntry(g, context)).filter(html => html).join('\n');
+
+  return `<details class="content-item sidechain">
+    <summary>
+      <span class="tool-badge">🧵 Subagent</span>
+      <span class="tool-name">${escapeHtml(sidechain.description || sidechain.summary)}</span>
+      ${sidechain.subagentType ? `<span class="sidechain-type">${escapeHtml(sidechain.subagentType)}</span>` : ''}
+      <span class="sidechain-count">${sidechain.entries.length} entries</span>
+    </summary>
+    <div class="sidechain-entries">
+      ${entriesHtml}
+    </div>
+  </details>`;
+}
+
+/**
+ * Generate HTML for all entries of a round, nesting subagent runs under the Task that spawned them
+ */
+function renderRoundEntries(round: Round, stepStatusById?: Map<string, DiffStatus>): string {
+  const sidechains = round.sidechains ?? [];
+  const sidechainsByToolUseId = new Map<string, SidechainTrajectory[]>();
+  for (const sidechain of sidechains) {
+    if (sidechain.toolUseId) {
+      sidechainsByToolUseId.set(sidechain.toolUseId, [...(sidechainsByToolUseId.get(sidechain.toolUseId) ?? []), sidechain]);
+    }
+  }
+
+  // Rounds loaded from older JSON exports have no toolCalls
+  const context: RenderContext = {
+    sidechainsByToolUseId,
+    toolCallsById: new Map((round.toolCalls ?? []).map(call => [call.id, call])),
+    stepStatusById,
+  };
+
+  const groupedEntries = groupEntriesById(round.entries);
+  const entriesHtml = groupedEntries.map(g => renderGroupedEntry(g, context)).filter(html => html);
+
+  // Subagent runs that could not be matched to a Task, or continue a Task of an earlier round, go at the end
+  const unmatched = sidechains.filter(sidechain => !sidechain.toolUseId || (round.toolCalls && !context.toolCallsById.has(sidechain.toolUseId)));
+  if (unmatched.length > 0) {
+    entriesHtml.push(`<div class="content-array">${unmatched.map(renderSidechain).join('\n')}</div>`);
+  }
+
+  return entriesHtml.join('\n');
+}
+
 /**
  * Generate HTML for a grouped entry (combines multiple entries with same message.id)
  */
-function renderGroupedEntry(grouped: GroupedEntry): string {
+function renderGroupedEntry(grouped: GroupedEntry, context?: RenderContext): string {
   const firstEntry = grouped.firstEntry;
 
   // Skip empty system entries
@@ -194,18 +264,28 @@ function renderGroupedEntry(grouped: GroupedEntry): string {
           const toolName = (item.name as string) || 'unknown';
           const toolInput = item.input;
           const hasInput = toolInput && typeof toolInput === 'object' && Object.keys(toolInput).length > 0;
+          const call = context?.toolCallsById.get(item.id as string);
+          const stepStatus = context?.stepStatusById?.get(item.id as string);
 
-          combinedContent += `<div class="content-item tool-use">
+          combinedContent += `<div class="content-item tool-use${stepStatus ? ` diff-${stepStatus}` : ''}">
             <span class="tool-badge">🔧 Tool Use</span>
             <span class="tool-name">${escapeHtml(toolName)}</span>
+            ${call?.status === 'unanswered' ? '<span class="tool-status">⏳ No result</span>' : ''}
             ${hasInput ? `<pre class="tool-input-content">${escapeHtml(JSON.stringify(toolInput, null, 2))}</pre>` : ''}
           </div>`;
+
+          const nested = context?.sidechainsByToolUseId.get(item.id as string) ?? [];
+          combinedContent += nested.map(renderSidechain).join('\n');
         } else if (itemType === 'tool_result') {
           const isError = (item.is_error as boolean) || false;
-          const resultContent = item.content || '';
+          const call = context?.toolCallsById.get(item.tool_use_id as string);
+          const resultContent = call?.output ?? (item.content || '');
           combinedContent += `<div class="content-item tool-result ${isError ? 'error' : ''}">
             <span class="tool-badge">${isError ? '❌' : '✅'} Tool Result</span>
+            ${call?.name ? `<span class="tool-name">${escapeHtml(call.name)}</span>` : ''}
             ${item.tool_use_id ? `<span class="tool-id">${escapeHtml(item.tool_use_id as string)}</span>` : ''}
+            ${call?.latencyMs != null ? `<span class="tool-latency">⏱ ${formatLatency(call.latencyMs)}</span>` : ''}
+            ${call?.status === 'orphaned' ? '<span class="tool-status">⚠️ No matching tool use</span>' : ''}
             <pre class="result-content">${escapeHtml(String(resultContent))}</pre>
           </div>`;
         } else if (itemType === 'thinking') {
@@ -219,6 +299,11 @@ function renderGroupedEntry(grouped: GroupedEntry): string {
               <pre class="thinking-content">${escapeHtml(thinkingText)}</pre>
             </details>`;
           }
+        } else if (itemType === 'redacted_thinking') {
+          // Encrypted by the API: there is nothing to show but the fact that the model thought
+          combinedContent += `<div class="content-item thinking">
+              <span class="tool-badge">💭 Thinking (redacted)</span>
+            </div>`;
         } else {
           combinedContent += `<div class="content-item unknown">
             <span class="item-type">${escapeHtml(itemType)}</span>
@@ -248,6 +333,95 @@ function renderGroupedEntry(grouped: GroupedEntry): string {
   `;
 }
 
+/**
+ * Generate the "Changes" section of a round: one collapsible unified diff per file
+ */
+function renderChanges(roundPatch: RoundPatch): string {
+  if (roundPatch.files.length === 0) {
+    return '';
+  }
+  const filesHtml = roundPatch.files.map(file => {
+    const linesHtml = file.patch.replace(/\n$/, '').split('\n').map(line => {
+      const type = line.startsWith('+++') || line.startsWith('---') ? 'header'
+        : line.startsWith('@@') ? 'hunk'
+          : line.startsWith('+') ? 'add'
+            : line.startsWith('-') ? 'del'
+              : 'context';
+      return `<span class="patch-line patch-${type}">${escapeHtml(line)}</span>`;
+    }).join('\n');
+    return `<details class="patch-file" open>
+        <summary>
+          <span class="tool-name">${escapeHtml(file.path)}</span>
+          <span class="patch-stat"><span class="patch-add">+${file.added}</span> <span class="patch-del">-${file.removed}</span></span>
+          ${file.exact ? '' : '<span class="tool-status" title="The file content was never seen, so only the edited lines are shown">partial</span>'}
+        </summary>
+        <pre class="patch-content">${linesHtml}</pre>
+      </details>`;
+  }).join('\n');
+
+  return `<div class="changes">
+      <h3>📝 Changes</h3>
+      ${filesHtml}
+    </div>`;
+}
+
+const TODO_ICONS: Record<TodoStatus | 'dropped', string> = { pending: '⬜', in_progress: '🔄', completed: '✅', dropped: '🗑️' };
+
+/**
+ * Generate the todo panel of a round: the list as the round left it with a progress bar,
+ * items the round changed tagged with their last change (nothing if the list did not change)
+ */
+function renderTodos(todos: RoundTodos | undefined): string {
+  if (!todos || todos.events.length === 0) {
+    return '';
+  }
+  const lastEvents = new Map(todos.events.map(event => [event.id, event]));
+  const itemsHtml = todos.items.map(item => {
+    const event = lastEvents.get(item.id);
+    return `<li class="todo-item todo-${item.status}${event ? ' todo-changed' : ''}">
+          ${TODO_ICONS[item.status]} ${escapeHtml(item.content)}
+          ${event ? `<span class="todo-event">${event.type.replace('_', ' ')}</span>` : ''}
+        </li>`;
+  });
+  const listed = new Set(todos.items.map(item => item.id));
+  const droppedHtml = todos.events
+    .filter(event => event.type === 'dropped' && !listed.has(event.id))
+    .map(event => `<li class="todo-item todo-dropped">
+          ${TODO_ICONS.dropped} <s>${escapeHtml(event.content)}</s>
+          <span class="todo-event">dropped</span>
+        </li>`);
+  const done = todos.items.filter(item => item.status === 'completed').length;
+  const percent = Math.round(todoProgress(todos.items) * 100);
+
+  return `<div class="todos">
+      <h3>📋 Todos <span class="todo-count">${done}/${todos.items.length} completed</span></h3>
+      <div class="todo-progress"><div class="todo-progress-bar" style="width: ${percent}%"></div></div>
+      <ul class="todo-list">
+        ${[...itemsHtml, ...droppedHtml].join('\n')}
+      </ul>
+    </div>`;
+}
+
+/**
+ * Generate header spans for token usage and estimated cost (nothing for rounds without usage)
+ */
+function renderUsageMeta(usage: RoundUsage | undefined): string {
+  if (!usage || totalTokens(usage) === 0) {
+    return '';
+  }
+  const tokens = `<span title="${escapeHtml(formatUsage(usage))}">🪙 ${formatTokenCount(totalTokens(usage))} tokens</span>`;
+  const cost = usage.estimatedCost !== null ? `<span>💰 ~${formatCost(usage.estimatedCost)}</span>` : '';
+  return tokens + cost;
+}
+
+/**
+ * Generate a header span naming the session file(s) of a stitched round (nothing for a single session)
+ */
+function renderSourceMeta(round: Round): string {
+  const files = [...new Set(round.entries.flatMap(entry => (entry.source ? [path.basename(entry.source.file, '.jsonl')] : [])))];
+  return files.length > 0 ? `<span>📄 ${escapeHtml(files.join(', '))}</span>` : '';
+}
+
 /**
  * Generate HTML for a complete round
  */
@@ -255,11 +429,10 @@ export function renderRoundToHtml(round: Round, options: RenderOptions = {}): st
   const fileBasename = options.sourceFile ? path.basename(options.sourceFile, '.jsonl') : 'Unknown';
   const { title = `${fileBasename} - Round #${round.roundNumber}`, theme = 'light' } = options;
 
-  // Group entries by message.id
-  const groupedEntries = groupEntriesById(round.entries);
-
-  // Render grouped entries
-  const entriesHtml = groupedEntries.map(g => renderGroupedEntry(g)).filter(html => html).join('\n');
+  // Render entries grouped by message.id
+  const entriesHtml = renderRoundEntries(round);
+  const todosHtml = renderTodos(round.todos);
+  const changesHtml = renderChanges(createPatchTracker().addRound(round));
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -460,6 +633,13 @@ export function renderRoundToHtml(round: Round, options: RenderOptions = {}): st
     .tool-result .tool-badge { background: #10b981; color: white; }
     .tool-result.error .tool-badge { background: #ef4444; color: white; }
 
+    .tool-latency,
+    .tool-status {
+      margin-left: 8px;
+      font-size: 0.85em;
+      color: var(--text-secondary);
+    }
+
     .result-content {
       margin: 10px 0 0 0;
       padding: 12px;
@@ -484,6 +664,30 @@ export function renderRoundToHtml(round: Round, options: RenderOptions = {}): st
       align-items: center;
     }
 
+    .sidechain {
+      border-left-color: #f97316;
+    }
+
+    .sidechain .tool-badge { background: #f97316; color: white; }
+
+    .sidechain summary {
+      cursor: pointer;
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .sidechain-type, .sidechain-count {
+      color: var(--text-secondary);
+      font-size: 0.85em;
+    }
+
+    .sidechain-entries {
+      margin-top: 12px;
+      padding-left: 12px;
+      border-left: 2px dashed var(--border-color);
+    }
+
     .thinking-content {
       margin: 10px 0 0 0;
       padding: 12px;
@@ -540,6 +744,116 @@ export function renderRoundToHtml(round: Round, options: RenderOptions = {}): st
       font-size: 0.9em;
     }
 
+    .changes {
+      margin-top: 20px;
+      padding: 16px 20px;
+      background: var(--bg-secondary);
+      border: 1px solid var(--border-color);
+      border-radius: 12px;
+    }
+
+    .changes h3 {
+      margin: 0 0 12px 0;
+      font-size: 1.1em;
+    }
+
+    .patch-file {
+      margin-bottom: 12px;
+    }
+
+    .patch-file summary {
+      cursor: pointer;
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .patch-stat {
+      font-family: monospace;
+      font-size: 0.85em;
+    }
+
+    .patch-add { color: #16a34a; }
+    .patch-del { color: #dc2626; }
+
+    .patch-content {
+      margin: 10px 0 0 0;
+      padding: 12px 0;
+      background: var(--bg-primary);
+      border-radius: 6px;
+      font-size: 0.85em;
+      overflow-x: auto;
+      max-height: 500px;
+      overflow-y: auto;
+    }
+
+    .patch-line {
+      display: block;
+      padding: 0 12px;
+      white-space: pre;
+    }
+
+    .patch-line.patch-add { background: var(--success-bg); color: inherit; }
+    .patch-line.patch-del { background: var(--error-bg); color: inherit; }
+    .patch-line.patch-hunk { color: var(--accent-color); }
+    .patch-line.patch-header { color: var(--text-secondary); font-weight: 600; }
+
+    .todos {
+      margin-top: 20px;
+      padding: 16px 20px;
+      background: var(--bg-secondary);
+      border: 1px solid var(--border-color);
+      border-radius: 12px;
+    }
+
+    .todos h3 {
+      margin: 0 0 12px 0;
+      font-size: 1.1em;
+    }
+
+    .todo-count {
+      margin-left: 8px;
+      color: var(--text-secondary);
+      font-size: 0.85em;
+      font-weight: normal;
+    }
+
+    .todo-progress {
+      height: 6px;
+      background: var(--border-color);
+      border-radius: 3px;
+      overflow: hidden;
+      margin-bottom: 12px;
+    }
+
+    .todo-progress-bar {
+      height: 100%;
+      background: #16a34a;
+    }
+
+    .todo-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .todo-item {
+      padding: 4px 0;
+    }
+
+    .todo-item.todo-completed, .todo-item.todo-dropped { color: var(--text-secondary); }
+    .todo-item.todo-changed { font-weight: 600; }
+
+    .todo-event {
+      margin-left: 8px;
+      padding: 1px 8px;
+      border-radius: 10px;
+      background: var(--bg-primary);
+      border: 1px solid var(--border-color);
+      font-size: 0.75em;
+      font-weight: normal;
+    }
+
     .no-content {
       color: var(--text-secondary);
       font-style: italic;
@@ -554,6 +868,7 @@ export function renderRoundToHtml(round: Round, options: RenderOptions = {}): st
       <div class="meta">
         <span>📦 ${round.entries.length} entries</span>
         <span>🕐 ${new Date(round.startTimestamp).toLocaleString()} - ${new Date(round.endTimestamp).toLocaleString()}</span>
+        ${renderUsageMeta(round.usage)}
       </div>
       <div class="meta" style="margin-top: 10px;">
         <strong>Instruction:</strong> ${escapeHtml(round.summary)}
@@ -563,6 +878,8 @@ export function renderRoundToHtml(round: Round, options: RenderOptions = {}): st
     <div class="entries">
       ${entriesHtml}
     </div>
+    ${todosHtml}
+    ${changesHtml}
   </div>
 </body>
 </html>`;
@@ -592,10 +909,12 @@ export function renderFileToHtml(rounds: Round[], sourceFile: string, options: R
   const { theme = 'light' } = options;
   const title = `Tingly Traj - ${fileBasename}`;
 
-  // Render all rounds
+  // Render all rounds; file contents seen in earlier rounds make later diffs exact
+  const patchTracker = createPatchTracker();
   const roundsHtml = rounds.map((round) => {
-    const groupedEntries = groupEntriesById(round.entries);
-    const entriesHtml = groupedEntries.map(g => renderGroupedEntry(g)).filter(html => html).join('\n');
+    const entriesHtml = renderRoundEntries(round);
+    const todosHtml = renderTodos(round.todos);
+    const changesHtml = renderChanges(patchTracker.addRound(round));
 
     return `
     <div class="round" id="round-${round.roundNumber}">
@@ -604,6 +923,8 @@ export function renderFileToHtml(rounds: Round[], sourceFile: string, options: R
         <div class="round-meta">
           <span>📦 ${round.entries.length} entries</span>
           <span>🕐 ${new Date(round.startTimestamp).toLocaleString()} - ${new Date(round.endTimestamp).toLocaleString()}</span>
+          ${renderUsageMeta(round.usage)}
+          ${renderSourceMeta(round)}
         </div>
         <div class="round-summary">
           <strong>Instruction:</strong> ${escapeHtml(round.summary)}
@@ -612,6 +933,8 @@ export function renderFileToHtml(rounds: Round[], sourceFile: string, options: R
       <div class="entries">
         ${entriesHtml}
       </div>
+      ${todosHtml}
+      ${changesHtml}
     </div>
     `;
   }).join('\n');
@@ -885,6 +1208,13 @@ export function renderFileToHtml(rounds: Round[], sourceFile: string, options: R
     .tool-result .tool-badge { background: #10b981; color: white; }
     .tool-result.error .tool-badge { background: #ef4444; color: white; }
 
+    .tool-latency,
+    .tool-status {
+      margin-left: 8px;
+      font-size: 0.85em;
+      color: var(--text-secondary);
+    }
+
     .result-content {
       margin: 10px 0 0 0;
       padding: 12px;
@@ -909,6 +1239,30 @@ export function renderFileToHtml(rounds: Round[], sourceFile: string, options: R
       align-items: center;
     }
 
+    .sidechain {
+      border-left-color: #f97316;
+    }
+
+    .sidechain .tool-badge { background: #f97316; color: white; }
+
+    .sidechain summary {
+      cursor: pointer;
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .sidechain-type, .sidechain-count {
+      color: var(--text-secondary);
+      font-size: 0.85em;
+    }
+
+    .sidechain-entries {
+      margin-top: 12px;
+      padding-left: 12px;
+      border-left: 2px dashed var(--border-color);
+    }
+
     .thinking-content {
       margin: 10px 0 0 0;
       padding: 12px;
@@ -965,6 +1319,116 @@ export function renderFileToHtml(rounds: Round[], sourceFile: string, options: R
       font-size: 0.9em;
     }
 
+    .changes {
+      margin-top: 20px;
+      padding: 16px 20px;
+      background: var(--bg-secondary);
+      border: 1px solid var(--border-color);
+      border-radius: 12px;
+    }
+
+    .changes h3 {
+      margin: 0 0 12px 0;
+      font-size: 1.1em;
+    }
+
+    .patch-file {
+      margin-bottom: 12px;
+    }
+
+    .patch-file summary {
+      cursor: pointer;
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .patch-stat {
+      font-family: monospace;
+      font-size: 0.85em;
+    }
+
+    .patch-add { color: #16a34a; }
+    .patch-del { color: #dc2626; }
+
+    .patch-content {
+      margin: 10px 0 0 0;
+      padding: 12px 0;
+      background: var(--bg-primary);
+      border-radius: 6px;
+      font-size: 0.85em;
+      overflow-x: auto;
+      max-height: 500px;
+      overflow-y: auto;
+    }
+
+    .patch-line {
+      display: block;
+      padding: 0 12px;
+      white-space: pre;
+    }
+
+    .patch-line.patch-add { background: var(--success-bg); color: inherit; }
+    .patch-line.patch-del { background: var(--error-bg); color: inherit; }
+    .patch-line.patch-hunk { color: var(--accent-color); }
+    .patch-line.patch-header { color: var(--text-secondary); font-weight: 600; }
+
+    .todos {
+      margin-top: 20px;
+      padding: 16px 20px;
+      background: var(--bg-secondary);
+      border: 1px solid var(--border-color);
+      border-radius: 12px;
+    }
+
+    .todos h3 {
+      margin: 0 0 12px 0;
+      font-size: 1.1em;
+    }
+
+    .todo-count {
+      margin-left: 8px;
+      color: var(--text-secondary);
+      font-size: 0.85em;
+      font-weight: normal;
+    }
+
+    .todo-progress {
+      height: 6px;
+      background: var(--border-color);
+      border-radius: 3px;
+      overflow: hidden;
+      margin-bottom: 12px;
+    }
+
+    .todo-progress-bar {
+      height: 100%;
+      background: #16a34a;
+    }
+
+    .todo-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .todo-item {
+      padding: 4px 0;
+    }
+
+    .todo-item.todo-completed, .todo-item.todo-dropped { color: var(--text-secondary); }
+    .todo-item.todo-changed { font-weight: 600; }
+
+    .todo-event {
+      margin-left: 8px;
+      padding: 1px 8px;
+      border-radius: 10px;
+      background: var(--bg-primary);
+      border: 1px solid var(--border-color);
+      font-size: 0.75em;
+      font-weight: normal;
+    }
+
     .no-content {
       color: var(--text-secondary);
       font-style: italic;
@@ -978,6 +1442,7 @@ export function renderFileToHtml(rounds: Round[], sourceFile: string, options: R
       <h1>${escapeHtml(fileBasename)}</h1>
       <div class="meta">
         <span>📊 ${rounds.length} rounds</span>
+        ${renderUsageMeta(sumUsage(rounds.flatMap((round) => (round.usage ? [round.usage] : []))))}
       </div>
     </div>
 
@@ -1000,3 +1465,408 @@ export function renderFileToHtml(rounds: Round[], sourceFile: string, options: R
 </body>
 </html>`;
 }
+
+const DIFF_STATUS_LABELS: Record<DiffStatus, string> = {
+  same: '= Same',
+  changed: '~ Changed',
+  added: '+ Added',
+  removed: '- Removed',
+};
+
+function renderDiffCounts(label: string, counts: DiffCounts): string {
+  return `<span>${label}: ${counts.same} same, ${counts.changed} changed, ${counts.added} added, ${counts.removed} removed</span>`;
+}
+
+/**
+ * Generate a row of the step table: the tool call of each side, aligned
+ */
+function renderStepRow(step: StepDiff): string {
+  const cell = (call: ToolCall | null) => call
+    ? `<div class="diff-step-call">
+        <code>${escapeHtml(describeToolCall(call))}</code>
+        ${call.isError ? '<span class="tool-status">❌ Error</span>' : ''}
+        ${call.status === 'unanswered' ? '<span class="tool-status">⏳ No result</span>' : ''}
+      </div>`
+    : '<div class="diff-step-call diff-missing">—</div>';
+
+  return `<div class="diff-step diff-${step.status}">
+      <span class="diff-badge">${DIFF_STATUS_LABELS[step.status]}</span>
+      ${cell(step.a)}
+      ${cell(step.b)}
+      <span class="diff-changes">${step.changes.map(change => escapeHtml(change)).join(', ')}</span>
+    </div>`;
+}
+
+/**
+ * Generate the entries of one side of a round pair, marking each tool call with its step status
+ */
+function renderDiffSide(round: Round | null, steps: StepDiff[], side: 'a' | 'b'): string {
+  if (!round) {
+    return `<div class="diff-side diff-missing">Not in ${side.toUpperCase()}</div>`;
+  }
+  const stepStatusById = new Map<string, DiffStatus>();
+  for (const step of steps) {
+    const call = step[side];
+    if (call) {
+      stepStatusById.set(call.id, step.status);
+    }
+  }
+  return `<div class="diff-side">
+      <div class="diff-side-title">${side.toUpperCase()} · Round #${round.roundNumber}</div>
+      ${renderRoundEntries(round, stepStatusById)}
+    </div>`;
+}
+
+function renderRoundDiff(roundDiff: RoundDiff, index: number): string {
+  const { a, b, status, steps } = roundDiff;
+  const title = [a ? `A #${a.roundNumber}` : null, b ? `B #${b.roundNumber}` : null].filter(Boolean).join(' ↔ ');
+  const summary = (a ?? b)!.summary;
+  const similarity = a && b ? `<span>🔗 ${Math.round(roundDiff.similarity * 100)}% prompt similarity</span>` : '';
+
+  return `
+    <div class="round diff-round diff-${status}" id="diff-${index + 1}">
+      <div class="round-header">
+        <h2><span class="diff-badge">${DIFF_STATUS_LABELS[status]}</span> ${escapeHtml(title)}</h2>
+        <div class="round-meta">
+          ${similarity}
+          <span>🔧 ${steps.length} step${steps.length === 1 ? '' : 's'}</span>
+        </div>
+        <div class="round-summary">
+          <strong>Instruction:</strong> ${escapeHtml(summary)}
+          ${a && b && a.summary !== b.summary ? `<br><strong>B:</strong> ${escapeHtml(b.summary)}` : ''}
+        </div>
+      </div>
+      ${steps.length > 0 ? `<div class="diff-steps">${steps.map(renderStepRow).join('\n')}</div>` : ''}
+      <details class="diff-entries"${status === 'same' ? '' : ' open'}>
+        <summary>Entries</summary>
+        <div class="diff-columns">
+          ${renderDiffSide(a, steps, 'a')}
+          ${renderDiffSide(b, steps, 'b')}
+        </div>
+      </details>
+    </div>
+    `;
+}
+
+/**
+ * Generate a side-by-side HTML page comparing two trajectories
+ */
+export function renderDiffToHtml(diff: TrajectoryDiff, options: RenderOptions = {}): string {
+  const nameA = path.basename(diff.fileA, '.jsonl');
+  const nameB = path.basename(diff.fileB, '.jsonl');
+  const { title = `${nameA} vs ${nameB}`, theme = 'light' } = options;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)} - Tingly Traj Diff</title>
+  <style>
+    :root {
+      --bg-primary: #ffffff;
+      --bg-secondary: #f5f7fa;
+      --bg-entry: #f8f9fa;
+      --text-primary: #1a1a1a;
+      --text-secondary: #666666;
+      --border-color: #e1e8ed;
+      --accent-color: #2563eb;
+      --added-color: #16a34a;
+      --removed-color: #dc2626;
+      --changed-color: #d97706;
+      --added-bg: #dcfce7;
+      --removed-bg: #fee2e2;
+      --changed-bg: #fef3c7;
+    }
+
+    .dark-theme {
+      --bg-primary: #1a1a1a;
+      --bg-secondary: #2d2d2d;
+      --bg-entry: #252525;
+      --text-primary: #e5e5e5;
+      --text-secondary: #a0a0a0;
+      --border-color: #404040;
+      --accent-color: #3b82f6;
+      --added-bg: #1a3f1a;
+      --removed-bg: #3f1a1a;
+      --changed-bg: #3d2e14;
+    }
+
+    * { box-sizing: border-box; }
+
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      line-height: 1.6;
+      color: var(--text-primary);
+      background: var(--bg-primary);
+      margin: 0;
+      padding: 0;
+    }
+
+    .container {
+      max-width: 1800px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+
+    .page-header, .round-header {
+      background: var(--bg-secondary);
+      padding: 20px 30px;
+      border-radius: 12px;
+      margin-bottom: 20px;
+      border: 1px solid var(--border-color);
+    }
+
+    .page-header h1 { margin: 0 0 10px 0; font-size: 1.8em; }
+    .round-header h2 { margin: 0 0 10px 0; font-size: 1.4em; }
+
+    .brand {
+      display: inline-block;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      padding: 4px 12px;
+      border-radius: 20px;
+      font-size: 0.85em;
+      font-weight: 600;
+      margin-bottom: 15px;
+    }
+
+    .meta, .round-meta {
+      color: var(--text-secondary);
+      font-size: 0.9em;
+      display: flex;
+      gap: 20px;
+      flex-wrap: wrap;
+    }
+
+    .round-summary {
+      margin-top: 10px;
+      padding-top: 10px;
+      border-top: 1px solid var(--border-color);
+      font-size: 0.9em;
+    }
+
+    .round { margin-bottom: 40px; }
+    .diff-round.diff-added .round-header { border-left: 6px solid var(--added-color); }
+    .diff-round.diff-removed .round-header { border-left: 6px solid var(--removed-color); }
+    .diff-round.diff-changed .round-header { border-left: 6px solid var(--changed-color); }
+
+    .diff-badge {
+      display: inline-block;
+      padding: 2px 8px;
+      border-radius: 4px;
+      font-size: 0.75em;
+      font-weight: 600;
+      font-family: monospace;
+      background: var(--bg-entry);
+      border: 1px solid var(--border-color);
+    }
+
+    .diff-added > .diff-badge, .diff-added .round-header .diff-badge { background: var(--added-bg); }
+    .diff-removed > .diff-badge, .diff-removed .round-header .diff-badge { background: var(--removed-bg); }
+    .diff-changed > .diff-badge, .diff-changed .round-header .diff-badge { background: var(--changed-bg); }
+
+    .diff-steps {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin-bottom: 20px;
+    }
+
+    .diff-step {
+      display: grid;
+      grid-template-columns: 110px 1fr 1fr 140px;
+      gap: 12px;
+      align-items: center;
+      padding: 6px 12px;
+      border-radius: 6px;
+      background: var(--bg-entry);
+      font-size: 0.9em;
+    }
+
+    .diff-step.diff-added { background: var(--added-bg); }
+    .diff-step.diff-removed { background: var(--removed-bg); }
+    .diff-step.diff-changed { background: var(--changed-bg); }
+
+    .diff-step-call code { word-break: break-all; }
+    .diff-changes { color: var(--text-secondary); font-size: 0.85em; }
+    .diff-missing { color: var(--text-secondary); font-style: italic; }
+
+    .diff-entries > summary {
+      cursor: pointer;
+      font-weight: 600;
+      margin-bottom: 12px;
+    }
+
+    .diff-columns {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 20px;
+      align-items: start;
+    }
+
+    .diff-side { min-width: 0; }
+
+    .diff-side-title {
+      font-weight: 600;
+      margin-bottom: 10px;
+      color: var(--text-secondary);
+    }
+
+    .entry {
+      background: var(--bg-entry);
+      border: 1px solid var(--border-color);
+      border-radius: 12px;
+      margin-bottom: 16px;
+      overflow: hidden;
+    }
+
+    .entry-header {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      padding: 10px 14px;
+      background: var(--bg-secondary);
+      border-bottom: 1px solid var(--border-color);
+      font-size: 0.9em;
+    }
+
+    .entry-type { font-weight: 600; }
+
+    .entry-meta {
+      margin-left: auto;
+      display: flex;
+      gap: 15px;
+      color: var(--text-secondary);
+      font-size: 0.85em;
+    }
+
+    .group-info {
+      background: var(--accent-color);
+      color: white;
+      padding: 2px 8px;
+      border-radius: 12px;
+      font-size: 0.75em;
+      font-weight: 600;
+    }
+
+    .uuid { font-family: monospace; cursor: help; }
+    .entry-content { padding: 14px; }
+
+    .user-message { border-left: 4px solid #2563eb; }
+    .assistant-message { border-left: 4px solid #0891c2; }
+    .system-message { border-left: 4px solid #f59e0b; }
+
+    .content-array {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+    }
+
+    .content-item {
+      padding: 12px;
+      background: var(--bg-secondary);
+      border-radius: 8px;
+      border-left: 3px solid var(--border-color);
+    }
+
+    .tool-badge {
+      display: inline-block;
+      padding: 2px 8px;
+      border-radius: 4px;
+      font-size: 0.85em;
+      font-weight: 600;
+      margin-right: 8px;
+    }
+
+    .tool-use .tool-badge { background: #8b5cf6; color: white; }
+    .tool-use.diff-added { background: var(--added-bg); border-left-color: var(--added-color); }
+    .tool-use.diff-removed { background: var(--removed-bg); border-left-color: var(--removed-color); }
+    .tool-use.diff-changed { background: var(--changed-bg); border-left-color: var(--changed-color); }
+    .tool-name { font-weight: 600; color: var(--accent-color); }
+
+    .tool-result { border-left-color: #10b981; }
+    .tool-result.error { border-left-color: #ef4444; }
+    .tool-result .tool-badge { background: #10b981; color: white; }
+    .tool-result.error .tool-badge { background: #ef4444; color: white; }
+
+    .tool-latency,
+    .tool-status {
+      margin-left: 8px;
+      font-size: 0.85em;
+      color: var(--text-secondary);
+    }
+
+    .tool-input-content, .result-content, .thinking-content {
+      margin: 10px 0 0 0;
+      padding: 12px;
+      background: var(--bg-primary);
+      border-radius: 6px;
+      font-size: 0.85em;
+      overflow-x: auto;
+      max-height: 250px;
+      overflow-y: auto;
+    }
+
+    .thinking-content { white-space: pre-wrap; word-break: break-word; }
+    .thinking { border-left-color: #a855f7; }
+    .thinking .tool-badge { background: #a855f7; color: white; }
+    .thinking summary, .sidechain summary { cursor: pointer; display: flex; align-items: center; gap: 8px; }
+
+    .sidechain { border-left-color: #f97316; }
+    .sidechain .tool-badge { background: #f97316; color: white; }
+    .sidechain-type, .sidechain-count { color: var(--text-secondary); font-size: 0.85em; }
+
+    .sidechain-entries {
+      margin-top: 12px;
+      padding-left: 12px;
+      border-left: 2px dashed var(--border-color);
+    }
+
+    pre, code {
+      font-family: 'SF Mono', 'Consolas', monospace;
+      font-size: 0.9em;
+    }
+
+    .content-text, .text-content {
+      margin: 0;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+
+    .content-text {
+      padding: 12px;
+      background: var(--bg-secondary);
+      border-radius: 8px;
+      max-height: 300px;
+      overflow-y: auto;
+    }
+  </style>
+</head>
+<body class="${theme === 'dark' ? 'dark-theme' : ''}">
+  <div class="container">
+    <div class="page-header">
+      <span class="brand">Tingly Traj Diff</span>
+      <h1>${escapeHtml(title)}</h1>
+      <div class="meta">
+        <span>A: ${escapeHtml(diff.fileA)}</span>
+        <span>B: ${escapeHtml(diff.fileB)}</span>
+      </div>
+      <div class="meta" style="margin-top: 10px;">
+        ${renderDiffCounts('📊 Rounds', diff.roundCounts)}
+        ${renderDiffCounts('🔧 Steps', diff.stepCounts)}
+      </div>
+    </div>
+
+    ${diff.rounds.map(renderRoundDiff).join('\n')}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Generate HTML filename for a diff of two files
+ */
+export function getDiffHtmlFilename(fileA: string, fileB: string): string {
+  return `${path.basename(fileA, '.jsonl')}-vs-${path.basename(fileB, '.jsonl')}.diff.html`;
+}
@@ -1,38 +1,214 @@
 #!/usr/bin/env node
 // CLI for extracting and rendering rounds from Claude Code session data
-import { readSessionFile, extractRounds, listRounds, extractRound, prependSystemEntries, loadSystemEntries, extractContextFields, hasThinking, extractRoundsWithThinking } from './round-extractor.ts';
-import { renderFileToHtml } from './html-renderer.ts';
-import type { RoundListOutput, Round } from './types.ts';
+import { readSessionFile, streamSessionFile, streamRounds, extractRounds, readSessionRounds, toRoundListItem, extractRound, prependSystemEntries, redactRound, anonymizeRounds, loadSystemEntries, readContextFields, entryHasThinking, roundHasThinking, formatParseDiagnostic } from '../shared/round-extractor.ts';
+import { createRedactor, loadRedactionConfig } from '../shared/redaction.ts';
+import { createAnonymizer } from '../shared/anonymizer.ts';
+import { renderFileToHtml, renderRoundToHtml, getHtmlFilename, renderDiffToHtml, getDiffHtmlFilename } from './html-renderer.ts';
+import { renderFileToMarkdown, renderRoundToMarkdown, getMarkdownFilename } from './markdown-renderer.ts';
+import { validateEntries, isHealthy } from './trajectory-validator.ts';
+import { buildSessionTree, parseBranchSelector, selectBranches } from './session-tree.ts';
+import { createSegmenter, DEFAULT_SEGMENT_STRATEGY } from '../shared/segmenters.ts';
+import { compileQuery, parseSearchFields, searchRound, formatSnippet, SEARCH_FIELDS } from './round-search.ts';
+import { roundToTrajectory, matchesQuery, selectBestTrajectory, formatTrajectories } from './trajectory-query.ts';
+import { parseRoundExpression, hasRoundSelection, selectRounds } from './round-selection.ts';
+import { roundToOpenAIMessages, validateOpenAIMessages } from './export-openai.ts';
+import { DEFAULT_MAX_TOKENS, roundToAnthropicRequest, validateAnthropicRequest } from './export-anthropic.ts';
+import { isShareGPTConversation, loadShareGPTTemplates, roundToShareGPT } from './export-sharegpt.ts';
+import { stitchSessions, extractStitchedRounds } from '../shared/session-stitch.ts';
+import { replayWorkspace, writeWorkspace } from './workspace-replay.ts';
+import { extractBashCommands, formatCommands, COMMAND_FORMATS, DEFAULT_MAX_OUTPUT } from './command-history.ts';
+import { buildTodoTimeline, todoProgress } from '../shared/todo-timeline.ts';
+import { computeThinkingStats, matchesThinkingFilter, roundToThinkingTriple, estimateTokens } from './thinking-stats.ts';
+import { createPatchTracker, extractRoundPatches, formatPatch } from './round-patches.ts';
+import { diffTrajectories, describeToolCall, DEFAULT_DIFF_THRESHOLD } from './trajectory-diff.ts';
+import { loadPricingTable, sumUsage, totalTokens, formatUsage, formatTokenCount, formatCost } from '../shared/usage.ts';
+import type { ClaudeRawEntry, ParseDiagnostic, PricingTable, RoundListItem, Round, RoundUsage, SidechainMode, TodoEventType } from '../shared/round-types.ts';
+import type { ValidationReport } from './trajectory-validator.ts';
+import type { BranchSelector, SessionBranch } from './session-tree.ts';
+import type { RoundSearchResult, SearchField, SearchOptions } from './round-search.ts';
+import type { QueryFormat, Trajectory } from './trajectory-query.ts';
+import type { RoundSelection } from './round-selection.ts';
+import type { OpenAIRecord } from './export-openai.ts';
+import type { RedactionConfig, Redactor } from '../shared/redaction.ts';
+import type { AnthropicMessagesRequest } from './export-anthropic.ts';
+import type { ShareGPTOptions, ShareGPTRecord } from './export-sharegpt.ts';
+import type { DiffCounts, DiffStatus, TrajectoryDiff } from './trajectory-diff.ts';
+import type { FilePatch, RoundPatch } from './round-patches.ts';
+import type { CommandFormat } from './command-history.ts';
+import type { TodoTimeline } from '../shared/todo-timeline.ts';
+import type { ThinkingFilter, ThinkingStats } from './thinking-stats.ts';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 
+// Formats understood by the export command
+const EXPORT_FORMATS = ['openai', 'anthropic-messages', 'sharegpt'] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
 const USAGE = `
 Usage: tingly-traj-cli <command> [options]
 
 Commands:
-  list <file>                    List all rounds in a session file
+  list <file> [options]          List all rounds in a session file
   extract <file> [options]       Extract rounds
-  render <file.jsonl> [options]  Render a .jsonl or .json file to HTML
+  export <file> [options]        Export rounds as training data (--format openai|anthropic-messages|sharegpt)
+  render <file.jsonl> [options]  Render a .jsonl or .json file to HTML or Markdown
   batch-render <dir> [options]   Scan dir for .json/.jsonl files and batch render
-  thinking <dir> [options]       Scan dir for .jsonl files with thinking metadata and export
+  thinking <dir> [options]       Scan dir for .jsonl files with thinking: statistics, copies and datasets
+  validate <file|dir> [options]  Check trajectory integrity (parent chain, tool results, timestamps)
+  search <file|dir> <query>      Search user text, assistant text and tool calls of every round
+  query <text> <file|dir>        Print the best trajectory whose opening prompt matches text
+  diff <a.jsonl> <b.jsonl>       Compare two runs of a task round by round and step by step
+  stitch <file.jsonl> [options]  Join a session with the sessions it was resumed from or continued in
+  replay <file.jsonl> [options]  Rebuild the files a session edited by replaying Edit/MultiEdit/Write
+  commands <file.jsonl>          List every Bash command the agent ran, as a report, JSON or script
+  todos <file.jsonl> [options]   Show how the agent's todo list evolved, round by round
   help                           Show this help message
 
+Options for parsing .jsonl files (list/extract/render/batch-render/thinking/query/diff/stitch/replay/commands/todos):
+  --strict                       Fail on the first malformed line instead of skipping it
+  --repair                       Salvage a partially written trailing line
+
+Options for list/extract:
+  --branch <all|active|n>        Reconstruct conversation branches from parentUuid forks
+                                 (edited prompts, regenerated responses) and use only the
+                                 selected branch(es), each as its own linear trajectory
+
+Options for list/extract/render/batch-render/diff/stitch:
+  --pricing <file>               Estimate costs with this pricing table instead of the bundled
+                                 config/pricing.json (same format)
+  --sidechains <mode>            Subagent (Task) runs: separate (nested under their Task, default),
+                                 inline (kept in the parent round in file order) or drop
+  --segment <strategy>           Where rounds start:
+                                   user-turn           every user prompt (default)
+                                   slash-command       every slash command (e.g. /review)
+                                   time-gap=<minutes>  a user prompt after <minutes> of inactivity
+                                   todo-completion     the first prompt after all todos are completed
+                                   whole-session       the whole session is one round
+
 Options for extract:
   -o, --output <dir>             Output directory (default: ./output)
-  -r, --round <num>              Extract specific round to stdout
-  -k, --keyword <keyword>        Extract rounds matching keyword
+  -r, --round <expr>             Extract rounds to stdout: a number, ranges and lists such as
+                                 3-7,10,-1 (negative numbers count from the end)
+  --since <time>                 Only rounds starting at or after <time> (ISO date/timestamp)
+  --until <time>                 Only rounds starting at or before <time>
+  --first <n>, --last <n>        Only the first/last n of the selected rounds
+  --split                        Write each selected round to its own .jsonl file in -o
+  -k, --keyword <keyword>        Extract rounds whose content matches keyword (see search options)
   -s, --system <file>            Prepend system entries from JSON file
   --render                       Auto-render extracted rounds to HTML
+  --normalize                    Merge streamed assistant chunks (same message.id) into one
+                                 message per API turn
+  --patches                      Also write each round's Edit/MultiEdit/Write changes as a unified
+                                 diff ({basename}-{n}.patch) and all of them as {basename}.patch
+
+Options for export (also accepts -o, -s, -r, --since/--until, --first/--last from extract):
+  -f, --format <format>          openai: chat-completions JSONL, one {"messages": [...]} per round,
+                                 tool_use/tool_result mapped to tool_calls/tool messages.
+                                 anthropic-messages: one Messages API request body per round,
+                                 alternating user/assistant turns, thinking kept with signatures.
+                                 Rounds with unanswered tool calls are skipped with a warning
+                                 sharegpt: one {"conversations": [{"from", "value"}]} per round,
+                                 tool calls and results rendered as text (see ShareGPT options)
+  --strip-thinking               anthropic-messages: drop thinking and redacted_thinking blocks
+  --max-tokens <n>               anthropic-messages: max_tokens of every request (default: the
+                                 round's thinking budget + ${DEFAULT_MAX_TOKENS})
+  --model <id>                   anthropic-messages: model of rounds that record none
+
+Options for redaction (extract/export/render/batch-render):
+  --redact                       Replace secrets and PII (API keys, JWTs, private keys, emails,
+                                 home directory user names, high-entropy strings) with
+                                 consistent placeholders such as [REDACTED_EMAIL_1]
+  --redact-rules <file>          Add, disable or allow rules from a JSON file (implies --redact)
+  --redaction-report <file>      Write what was redacted where (file, line, uuid, field) as JSON
+
+Options for anonymization (extract/export/render/batch-render):
+  --anonymize                    Rewrite the project directory to /project, host names to host1,
+                                 user names to user1 (in paths, ~name and user@host; as any whole
+                                 word in tool outputs), session ids to stable pseudonyms,
+                                 gitBranch to branch-N and userType to "external"
+
+Options for ShareGPT output (export --format sharegpt, extract and thinking --extract):
+  --sharegpt                     extract/thinking: also write {basename}.sharegpt.jsonl
+  --templates <file>             JSON file with "toolCall" and "toolResult" text templates
+                                 ({name}, {id}, {input} / {output}, {status} placeholders)
+  --thinking                     Add assistant thinking as a "thinking" field of gpt turns
+                                 (always on for thinking --extract)
 
 Options for render/batch-render:
   -o, --output <dir>             Output directory (default: ./output)
   --theme <theme>                Theme: light or dark (default: light)
+  -f, --format <format>          html (default) or md: Markdown transcript (render only)
+  --per-round                    Write one {basename}-{n}.html/.md file per round (render only)
   -r, --recursive                Scan directories recursively (batch-render only)
 
 Options for thinking:
   -o, --output <dir>             Output directory (default: ./output/thinking)
   -r, --recursive                Scan directories recursively
   -e, --extract                  Extract thinking rounds to individual .jsonl files
+  --stats                        Print per-round thinking statistics (blocks, redacted blocks,
+                                 characters, estimated tokens, ratio to visible output, level)
+                                 and write them to thinking-stats.json
+  --level <levels>               Only rounds whose thinkingMetadata.level is one of these
+                                 (comma-separated, e.g. high,medium)
+  --min-length <chars>           Only rounds with at least this many characters of thinking
+  --triples                      Write (prompt, thinking, final answer) triples of the selected
+                                 rounds to thinking-triples.jsonl
+
+Options for search (and extract -k):
+  --mode <mode>                  substring (default), regex or exact (whole word or phrase)
+  --case-sensitive               Match case exactly (default: case-insensitive)
+  --in <fields>                  Comma-separated fields to search: user, assistant, tool
+                                 (tool inputs and outputs; default: all)
+  -r, --recursive                Scan directories recursively (search only)
+  --json                         Print the results as JSON (search only)
+
+Options for query:
+  -m, --mode <mode>              substring (default), regex or exact (the whole prompt)
+  -c, --case-sensitive           Match case exactly (default: case-insensitive)
+  -R, --no-recursive             Only scan the top level of a directory (default: recursive)
+  -a, --all                      Print every matching trajectory instead of the best one
+  -f, --format <format>          json (default), jsonl or text
+  -o, --output <file>            Write to a file instead of stdout
+
+Options for diff:
+  -o, --output <dir>             Output directory for the side-by-side HTML (default: ./output)
+  --theme <theme>                Theme: light or dark (default: light)
+  --threshold <0-1>              Minimum prompt similarity for two rounds to be aligned
+                                 (default: ${DEFAULT_DIFF_THRESHOLD}); others count as added/removed
+
+Options for stitch:
+  -o, --output <dir>             Output directory (default: ./output)
+  --render                       Also render the stitched rounds to HTML
+  --theme <theme>                Theme for --render: light or dark (default: light)
+  --normalize                    Merge streamed assistant chunks, as for extract
+
+Options for replay (also accepts --segment):
+  -o, --output <dir>             Where to write the workspace (default: ./output/<basename>-workspace)
+  --from <dir>                   Checkout of the project as it was when the session started; it is
+                                 copied to the output and edits are applied on top of it
+  --file-history <dir>           Directory with the backups named in file-history-snapshot entries
+                                 (~/.claude/file-history/<sessionId>), used for files not in --from
+  -r, --round <n>                Stop after round n (default: replay the whole session)
+  --entry <uuid>                 Stop after the entry with this uuid
+  --json                         Print the summary and conflicts as JSON
+
+Options for commands (also accepts --sidechains and --segment):
+  -f, --format <format>          text (default): one block per command with its round, start time,
+                                 duration, exit status and output; json; sh: a shell script that
+                                 runs the commands again, with cd and a comment before each
+  -o, --output <file>            Write to a file instead of stdout
+  --max-output <chars>           Truncate each command's output (default: ${DEFAULT_MAX_OUTPUT}, 0: keep all)
+
+Options for todos (also accepts --segment):
+  --json                         Print the timeline (events with round numbers and timestamps,
+                                 final list and counts) as JSON
+
+Options for validate:
+  -r, --recursive                Scan directories recursively
+  --strict                       Treat warnings as failures
+  --repair                       Salvage a partially written trailing line (reported as a warning)
+  --json                         Print the reports as JSON
+  Exit code: 0 if every file is healthy, 1 otherwise
 
 Examples:
   # List all rounds
@@ -44,24 +220,78 @@ Examples:
   # Extract a specific round (to stdout)
   pnpm cli extract traj-yz-cc-tb/tb-bugfix/tb-bugfix-ci.jsonl -r 0 > round-0.jsonl
 
+  # Extract rounds 3 to 7, round 10 and the last round, one file per round
+  pnpm cli extract session.jsonl -r 3-7,10,-1 --split -o ./output
+
+  # Extract the last 5 rounds from January 31st onwards
+  pnpm cli extract session.jsonl --since 2026-01-31 --last 5 > recent.jsonl
+
   # Extract rounds by keyword (filename uses round range)
   pnpm cli extract traj-yz-cc-tb/tb-bugfix/tb-bugfix-ci.jsonl -k "bugfix" -o ./output
 
   # Extract with system prompt prepended
   pnpm cli extract session.jsonl -s system.json -o ./output
 
+  # Extract without subagent conversations
+  pnpm cli extract session.jsonl --sidechains drop -o ./output
+
+  # Search tool output for an error message across a directory
+  pnpm cli search ./sessions "ECONNREFUSED" --in tool -r
+
+  # Best trajectory starting with a prompt, searched across a directory
+  pnpm cli query "Summarize the architecture" ./sessions -f jsonl -o trajectory.jsonl
+
+  # Export rounds as OpenAI fine-tuning data with a system prompt
+  pnpm cli export session.jsonl --format openai -s system.json -o ./dataset
+
+  # Render a redacted copy to share, with a report of what was removed
+  pnpm cli render session.jsonl --redact --redaction-report redactions.json -o ./html
+
+  # Extract matching rounds together with a ShareGPT dataset
+  pnpm cli extract session.jsonl -k "bugfix" --sharegpt --thinking -o ./output
+
+  # Cut rounds after 30 minutes of inactivity instead of at every prompt
+  pnpm cli list session.jsonl --segment time-gap=30
+
+  # List every conversation branch, or extract the active one
+  pnpm cli list session.jsonl --branch all
+  pnpm cli extract session.jsonl --branch active -o ./output
+
+  # Fail if any line is malformed, or salvage a truncated last line
+  pnpm cli extract crashed-session.jsonl --strict
+  pnpm cli extract crashed-session.jsonl --repair -o ./output
+
   # Extract and auto-render to HTML
   pnpm cli extract session.jsonl --render --theme dark -o ./output
 
   # Render a single .json file to HTML
   pnpm cli render ./output/tb-bugfix-ci.json -o ./html --theme dark
 
+  # Render a Markdown transcript per round (for PRs, wikis and issues)
+  pnpm cli render traj-yz-cc-tb/tb-bugfix/tb-bugfix-ci.jsonl --format md --per-round -o ./md
+
   # Batch render all .json/.jsonl files in a directory
   pnpm cli batch-render ./output -o ./html --theme dark
 
   # Batch render recursively
   pnpm cli batch-render ./data -o ./html -r --theme dark
 
+  # Compare two runs of the same task (terminal report + side-by-side HTML)
+  pnpm cli diff run-1.jsonl run-2.jsonl -o ./diff
+
+  # Join a resumed session with the earlier sessions of the same task
+  pnpm cli stitch ~/.claude/projects/-home-me-app/<sessionId>.jsonl --render -o ./output
+
+  # Rebuild the project as of round 3, starting from a checkout of the commit the session began on
+  pnpm cli replay session.jsonl --from ./checkout -r 3 -o ./workspace
+
+  # Audit the shell commands of a session, or turn them into a script
+  pnpm cli commands session.jsonl
+  pnpm cli commands session.jsonl --format sh -o session-commands.sh
+
+  # Follow the todo list of a session: items created, started, completed and dropped
+  pnpm cli todos session.jsonl
+
   # Scan directory for .jsonl files with thinking metadata
   pnpm cli thinking ./traj-yz-cc-tb -o ./output/thinking
 
@@ -70,27 +300,302 @@ Examples:
 
   # Extract rounds with thinking to .json files
   pnpm cli thinking ./traj-yz-cc-tb --extract -o ./output/thinking
+
+  # Thinking statistics, and a dataset of long high-effort thinking
+  pnpm cli thinking ./data -r --stats
+  pnpm cli thinking ./data -r --level high --min-length 2000 --triples -o ./output/thinking
+
+  # Validate trajectories before extraction
+  pnpm cli validate ./data -r
+  pnpm cli validate session.jsonl --strict --json > report.json
 `;
 
-function printRoundList(output: RoundListOutput): void {
-  console.log(`\n📁 File: ${output.filePath}`);
-  console.log(`📊 Total rounds: ${output.totalRounds}\n`);
-  console.log('─'.repeat(80));
-
-  for (const round of output.rounds) {
-    const date = new Date(round.startTimestamp).toLocaleString();
-    console.log(`\n  Round #${round.number}`);
-    console.log(`  📅 ${date}`);
-    console.log(`  📝 ${round.summary}`);
-    console.log(`  📦 Entries: ${round.entryCount}`);
+function printRoundListItem(round: RoundListItem): void {
+  const date = new Date(round.startTimestamp).toLocaleString();
+  console.log(`\n  Round #${round.number}`);
+  console.log(`  📅 ${date}`);
+  console.log(`  📝 ${round.summary}`);
+  console.log(`  📦 Entries: ${round.entryCount}`);
+  if (totalTokens(round.usage) > 0) {
+    console.log(`  🪙 Tokens: ${formatUsage(round.usage)}`);
+  }
+  if (round.toolCalls.total > 0) {
+    const flags: string[] = [];
+    if (round.toolCalls.errors > 0) flags.push(`${round.toolCalls.errors} failed`);
+    if (round.toolCalls.unanswered > 0) flags.push(`${round.toolCalls.unanswered} unanswered`);
+    if (round.toolCalls.orphaned > 0) flags.push(`${round.toolCalls.orphaned} orphaned`);
+    console.log(`  🔧 Tool calls: ${round.toolCalls.total}${flags.length > 0 ? ` (${flags.join(', ')})` : ''}`);
+  }
+  for (const sidechain of round.sidechains) {
+    console.log(`  🧵 Subagent: ${sidechain.description} (${sidechain.entryCount} entries)`);
+  }
+}
+
+/**
+ * Print the matches of a round with highlighted snippets
+ */
+function printSearchResult(result: RoundSearchResult, maxSnippets = 3): void {
+  const color = process.stdout.isTTY === true;
+  const icons: Record<SearchField, string> = { user: '👤', assistant: '🤖', tool: '🔧' };
+  const summary = result.summary.length > 60 ? `${result.summary.substring(0, 60)}...` : result.summary;
+  console.log(`  Round #${result.roundNumber}: ${summary} (${result.matches.length} match${result.matches.length === 1 ? '' : 'es'})`);
+  for (const match of result.matches.slice(0, maxSnippets)) {
+    console.log(`    ${icons[match.field]} ${match.label}: ${formatSnippet(match.snippet, color)}`);
+  }
+  if (result.matches.length > maxSnippets) {
+    console.log(`    ... and ${result.matches.length - maxSnippets} more`);
+  }
+}
+
+const TODO_EVENT_ICONS: Record<TodoEventType, string> = { created: '➕', in_progress: '🔄', completed: '✅', reopened: '↩️', dropped: '🗑️' };
+
+/**
+ * Print the todo events of each round that changed the list, then the final list
+ */
+function printTodoTimeline(rounds: Round[], timeline: TodoTimeline): void {
+  for (const round of rounds) {
+    if (!round.todos || round.todos.events.length === 0) continue;
+    const summary = round.summary.length > 60 ? `${round.summary.substring(0, 60)}...` : round.summary;
+    console.log(`\n  Round #${round.roundNumber}: ${summary}`);
+    for (const event of round.todos.events) {
+      const time = event.timestamp ? new Date(event.timestamp).toLocaleTimeString() : '';
+      console.log(`    ${time.padEnd(11)} ${TODO_EVENT_ICONS[event.type]} ${event.type.padEnd(11)} ${event.content}`);
+    }
+  }
+
+  const done = timeline.items.filter((item) => item.status === 'completed').length;
+  console.log(`\n  Final list: ${done}/${timeline.items.length} completed (${Math.round(todoProgress(timeline.items) * 100)}%)`);
+  for (const item of timeline.items) {
+    const icon = item.status === 'completed' ? '✅' : item.status === 'in_progress' ? '🔄' : '⬜';
+    console.log(`    ${icon} ${item.content}`);
+  }
+}
+
+const DIFF_MARKERS: Record<DiffStatus, string> = { same: '=', changed: '~', added: '+', removed: '-' };
+
+function formatDiffCounts(counts: DiffCounts): string {
+  return `${counts.same} same, ${counts.changed} changed, ${counts.added} added, ${counts.removed} removed`;
+}
+
+/**
+ * Print the aligned rounds of a diff; steps are listed for rounds that differ
+ */
+function printTrajectoryDiff(diff: TrajectoryDiff): void {
+  for (const round of diff.rounds) {
+    const title = [round.a ? `A#${round.a.roundNumber}` : null, round.b ? `B#${round.b.roundNumber}` : null].filter(Boolean).join(' ↔ ');
+    const similarity = round.a && round.b ? ` (${Math.round(round.similarity * 100)}%)` : '';
+    const summary = (round.a ?? round.b)!.summary;
+    console.log(`\n  ${DIFF_MARKERS[round.status]} Round ${title}${similarity}: ${summary.length > 60 ? `${summary.substring(0, 60)}...` : summary}`);
+    if (round.status === 'same') continue;
+
+    for (const step of round.steps) {
+      const call = (step.b ?? step.a)!;
+      const changes = step.changes.length > 0 ? ` (${step.changes.join(', ')})` : '';
+      console.log(`      ${DIFF_MARKERS[step.status]} ${describeToolCall(call)}${changes}`);
+    }
+  }
+}
+
+/**
+ * Load the pricing table given with --pricing, or else config/pricing.json.
+ * Cost estimates are left out if the default table is missing or invalid; a table
+ * given with --pricing must load.
+ */
+async function loadPricing(argsRest: string[]): Promise<PricingTable | undefined> {
+  const index = argsRest.indexOf('--pricing');
+  if (index !== -1) {
+    const pricingFile = argsRest[index + 1];
+    if (!pricingFile) {
+      console.error('❌ Error: --pricing requires a file path');
+      process.exit(1);
+    }
+    try {
+      const table = await loadPricingTable(pricingFile);
+      if (!table) {
+        throw new Error(`Pricing file not found: ${pricingFile}`);
+      }
+      return table;
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  try {
+    return await loadPricingTable();
+  } catch (error) {
+    console.warn(`⚠️  Could not load pricing table, costs will not be estimated: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Print malformed-line diagnostics as warnings (stderr, so stdout output stays clean)
+ */
+function printParseDiagnostics(diagnostics: ParseDiagnostic[], indent = ''): void {
+  if (diagnostics.length === 0) {
+    return;
+  }
+
+  const skipped = diagnostics.filter((d) => !d.repaired).length;
+  const repaired = diagnostics.length - skipped;
+  const parts: string[] = [];
+  if (skipped > 0) parts.push(`skipped ${skipped} malformed line${skipped === 1 ? '' : 's'}`);
+  if (repaired > 0) parts.push(`repaired ${repaired} truncated line${repaired === 1 ? '' : 's'}`);
+
+  console.warn(`${indent}⚠️  Parse warnings: ${parts.join(', ')}`);
+  for (const diagnostic of diagnostics) {
+    console.warn(`${indent}   ${formatParseDiagnostic(diagnostic)}`);
+  }
+}
+
+/**
+ * Print what was redacted (stderr, so stdout output stays clean) and write the full report if asked
+ */
+async function finishRedaction(redactor: Redactor | undefined, reportFile: string | null): Promise<void> {
+  if (!redactor) {
+    return;
+  }
+
+  const report = redactor.report();
+  const byRule = Object.entries(report.byRule).map(([rule, count]) => `${rule} ×${count}`);
+  console.warn(`🔒 Redacted ${report.total} value${report.total === 1 ? '' : 's'}${byRule.length > 0 ? `: ${byRule.join(', ')}` : ''}`);
+  if (reportFile) {
+    await fs.writeFile(reportFile, JSON.stringify(report, null, 2), 'utf-8');
+    console.warn(`   Report: ${reportFile}`);
   }
-  console.log('\n' + '─'.repeat(80));
 }
 
 async function ensureDir(dirPath: string): Promise<void> {
   await fs.mkdir(dirPath, { recursive: true });
 }
 
+/**
+ * Recursively scan directory for JSONL files
+ */
+async function scanJsonlDirectory(dir: string, recursive: boolean): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory() && recursive) {
+      const subFiles = await scanJsonlDirectory(fullPath, recursive);
+      files.push(...subFiles);
+    } else if (entry.isFile()) {
+      // Skip macOS AppleDouble files (._name.jsonl), which are resource forks, not sessions
+      if (entry.name.endsWith('.jsonl') && !entry.name.startsWith('._')) {
+        files.push(fullPath);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Write a JSON array one element at a time.
+ * Output is identical to JSON.stringify(items, null, 2) without holding all items in memory.
+ */
+async function openJsonArrayWriter(filePath: string) {
+  const handle = await fs.open(filePath, 'w');
+  let count = 0;
+
+  return {
+    async write(item: unknown): Promise<void> {
+      const json = JSON.stringify(item, null, 2).replace(/^/gm, '  ');
+      await handle.write(`${count === 0 ? '[\n' : ',\n'}${json}`);
+      count++;
+    },
+    async close(): Promise<void> {
+      await handle.write(count === 0 ? '[]' : '\n]');
+      await handle.close();
+    },
+  };
+}
+
+/**
+ * Write one {basename}-{n}.patch per round that changed files, and all changes as {basename}.patch.
+ * Without a combined diff, the round patches are concatenated (they apply one after the other).
+ */
+async function writePatches(outputDir: string, basename: string, roundPatches: RoundPatch[], combined?: FilePatch[]): Promise<void> {
+  const changed = roundPatches.filter((roundPatch) => roundPatch.files.length > 0);
+  if (changed.length === 0) {
+    console.log('   Patches: no Edit/MultiEdit/Write changes');
+    return;
+  }
+  for (const roundPatch of changed) {
+    await fs.writeFile(path.join(outputDir, `${basename}-${roundPatch.roundNumber}.patch`), formatPatch(roundPatch.files), 'utf-8');
+  }
+  const combinedPath = path.join(outputDir, `${basename}.patch`);
+  await fs.writeFile(combinedPath, formatPatch(combined ?? changed.flatMap((roundPatch) => roundPatch.files)), 'utf-8');
+
+  const partial = changed.flatMap((roundPatch) => roundPatch.files).filter((file) => !file.exact).length;
+  console.log(`   Patches: ${changed.length} round${changed.length === 1 ? '' : 's'} → ${path.join(outputDir, `${basename}-<n>.patch`)}, combined → ${combinedPath}`);
+  if (partial > 0) {
+    console.log(`   ⚠️  ${partial} file diff${partial === 1 ? '' : 's'} only cover the edited lines (file content never seen in the session)`);
+  }
+}
+
+/**
+ * Write rounds as ShareGPT records, one per line. Rounds without a human/gpt exchange are skipped.
+ */
+async function openShareGPTWriter(filePath: string, systemEntries: ClaudeRawEntry[], options: ShareGPTOptions) {
+  const handle = await fs.open(filePath, 'w');
+  let count = 0;
+
+  return {
+    async write(round: Round): Promise<void> {
+      const record = roundToShareGPT(round, systemEntries, options);
+      if (!isShareGPTConversation(record)) return;
+      await handle.write(JSON.stringify(record) + '\n');
+      count++;
+    },
+    // Returns the number of records written
+    async close(): Promise<number> {
+      await handle.close();
+      return count;
+    },
+  };
+}
+
+/**
+ * Write (prompt, thinking, answer) triples, one per line. Rounds without all three are skipped.
+ */
+async function openThinkingTripleWriter(filePath: string) {
+  const handle = await fs.open(filePath, 'w');
+  let count = 0;
+
+  return {
+    async write(round: Round, sourceFile: string): Promise<void> {
+      const triple = roundToThinkingTriple(round, sourceFile);
+      if (!triple) return;
+      await handle.write(JSON.stringify(triple) + '\n');
+      count++;
+    },
+    // Returns the number of triples written
+    async close(): Promise<number> {
+      await handle.close();
+      return count;
+    },
+  };
+}
+
+/**
+ * Print one line of thinking statistics per round
+ */
+function printThinkingStats(stats: ThinkingStats[]): void {
+  for (const round of stats) {
+    const redacted = round.redactedBlocks > 0 ? ` (+${round.redactedBlocks} redacted)` : '';
+    const ratio = round.ratio !== null ? `${round.ratio.toFixed(1)}× visible` : 'no visible output';
+    console.log(
+      `     Round #${round.roundNumber}: ${round.blocks} block${round.blocks === 1 ? '' : 's'}${redacted}, ` +
+        `${round.thinkingChars.toLocaleString()} chars (~${formatTokenCount(round.thinkingTokens)} tokens), ${ratio}, level ${round.level ?? 'unknown'}`
+    );
+  }
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
@@ -101,12 +606,150 @@ async function main(): Promise<void> {
 
   const command = args[0];
 
+  const parseBranchOption = (argsRest: string[], i: number): BranchSelector => {
+    const selector = i + 1 < argsRest.length ? parseBranchSelector(argsRest[i + 1]) : null;
+    if (selector === null) {
+      console.error('❌ Error: --branch requires "all", "active" or a branch number');
+      process.exit(1);
+    }
+    return selector;
+  };
+
+  const parseSidechainOption = (argsRest: string[], i: number): SidechainMode => {
+    const mode = argsRest[i + 1];
+    if (mode !== 'separate' && mode !== 'inline' && mode !== 'drop') {
+      console.error('❌ Error: --sidechains must be "separate", "inline" or "drop"');
+      process.exit(1);
+    }
+    return mode;
+  };
+
+  const parseSegmentOption = (argsRest: string[], i: number): string => {
+    const spec = argsRest[i + 1];
+    if (!spec) {
+      console.error('❌ Error: --segment requires a strategy');
+      process.exit(1);
+    }
+    try {
+      // Fail early on unknown strategies or bad arguments
+      createSegmenter(spec);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    return spec;
+  };
+
+  // Search option parsing (search command and extract -k); exits on invalid values
+  const parseSearchOptions = (argsRest: string[]): SearchOptions => {
+    const options: SearchOptions = { mode: 'substring', caseSensitive: false, fields: SEARCH_FIELDS };
+
+    for (let i = 0; i < argsRest.length; i++) {
+      if (argsRest[i] === '--mode') {
+        const mode = argsRest[i + 1];
+        if (mode !== 'substring' && mode !== 'regex' && mode !== 'exact') {
+          console.error('❌ Error: --mode must be "substring", "regex" or "exact"');
+          process.exit(1);
+        }
+        options.mode = mode;
+        i++;
+      } else if (argsRest[i] === '--case-sensitive') {
+        options.caseSensitive = true;
+      } else if (argsRest[i] === '--in') {
+        const fields = parseSearchFields(argsRest[i + 1] ?? '');
+        if (!fields) {
+          console.error('❌ Error: --in must be a comma-separated list of: user, assistant, tool');
+          process.exit(1);
+        }
+        options.fields = fields;
+        i++;
+      }
+    }
+
+    return options;
+  };
+
+  const compileQueryOrExit = (query: string, options: SearchOptions): RegExp => {
+    try {
+      return compileQuery(query, options);
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  };
+
+  // ShareGPT option parsing (export, extract and thinking --extract); exits on an invalid template file
+  const parseShareGPTOptions = async (argsRest: string[]): Promise<{ enabled: boolean; options: ShareGPTOptions }> => {
+    let enabled = false;
+    const options: ShareGPTOptions = {};
+
+    for (let i = 0; i < argsRest.length; i++) {
+      if (argsRest[i] === '--sharegpt') {
+        enabled = true;
+      } else if (argsRest[i] === '--thinking') {
+        options.includeThinking = true;
+      } else if (argsRest[i] === '--templates') {
+        if (i + 1 >= argsRest.length) {
+          console.error('❌ Error: --templates requires a file path');
+          process.exit(1);
+        }
+        try {
+          options.templates = await loadShareGPTTemplates(argsRest[i + 1]);
+        } catch (error) {
+          console.error(`❌ Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+        i++;
+      }
+    }
+
+    return { enabled, options };
+  };
+
+  // Redaction option parsing (extract, export, render and batch-render); exits on an invalid rules file
+  const parseRedactionOptions = async (argsRest: string[]): Promise<{ redactor: Redactor | undefined; reportFile: string | null }> => {
+    let enabled = false;
+    let config: RedactionConfig = {};
+    let reportFile: string | null = null;
+
+    for (let i = 0; i < argsRest.length; i++) {
+      if (argsRest[i] === '--redact') {
+        enabled = true;
+      } else if (argsRest[i] === '--redact-rules' || argsRest[i] === '--redaction-report') {
+        if (i + 1 >= argsRest.length) {
+          console.error(`❌ Error: ${argsRest[i]} requires a file path`);
+          process.exit(1);
+        }
+        if (argsRest[i] === '--redaction-report') {
+          reportFile = argsRest[i + 1];
+        } else {
+          try {
+            config = await loadRedactionConfig(argsRest[i + 1]);
+          } catch (error) {
+            console.error(`❌ Error: ${(error as Error).message}`);
+            process.exit(1);
+          }
+          enabled = true;
+        }
+        i++;
+      }
+    }
+
+    return { redactor: enabled ? createRedactor(config) : undefined, reportFile };
+  };
+
   // Common option parsing
   const parseOutputOptions = (argsRest: string[]) => {
     let outputDir = './output';
     let theme: 'light' | 'dark' = 'light';
     let recursive = false;
     let extract = false;
+    let anonymize = false;
+    let strict = false;
+    let repair = false;
+    let branch: BranchSelector | null = null;
+    let sidechains: SidechainMode = 'separate';
+    let segment = DEFAULT_SEGMENT_STRATEGY;
 
     for (let i = 0; i < argsRest.length; i++) {
       if (argsRest[i] === '-o' || argsRest[i] === '--output') {
@@ -132,20 +775,44 @@ async function main(): Promise<void> {
         recursive = true;
       } else if (argsRest[i] === '-e' || argsRest[i] === '--extract') {
         extract = true;
+      } else if (argsRest[i] === '--anonymize') {
+        anonymize = true;
+      } else if (argsRest[i] === '--strict') {
+        strict = true;
+      } else if (argsRest[i] === '--repair') {
+        repair = true;
+      } else if (argsRest[i] === '--branch') {
+        branch = parseBranchOption(argsRest, i);
+        i++;
+      } else if (argsRest[i] === '--sidechains') {
+        sidechains = parseSidechainOption(argsRest, i);
+        i++;
+      } else if (argsRest[i] === '--segment') {
+        segment = parseSegmentOption(argsRest, i);
+        i++;
       }
     }
 
-    return { outputDir, theme, recursive, extract };
+    return { outputDir, theme, recursive, extract, anonymize, strict, repair, branch, sidechains, segment };
   };
 
   // Extract options parsing
   const parseExtractOptions = (argsRest: string[]) => {
     let outputDir = './output';
-    let roundNum: number | null = null;
+    const selection: RoundSelection = {};
+    let split = false;
     let keyword: string | null = null;
     let systemFile: string | null = null;
     let render = false;
+    let normalize = false;
+    let anonymize = false;
+    let patches = false;
     let theme: 'light' | 'dark' = 'light';
+    let strict = false;
+    let repair = false;
+    let branch: BranchSelector | null = null;
+    let sidechains: SidechainMode = 'separate';
+    let segment = DEFAULT_SEGMENT_STRATEGY;
 
     for (let i = 0; i < argsRest.length; i++) {
       if (argsRest[i] === '-o' || argsRest[i] === '--output') {
@@ -157,18 +824,31 @@ async function main(): Promise<void> {
           process.exit(1);
         }
       } else if (argsRest[i] === '-r' || argsRest[i] === '--round') {
-        if (i + 1 < argsRest.length) {
-          const num = parseInt(argsRest[i + 1], 10);
-          if (isNaN(num) || num < 0) {
-            console.error('❌ Error: --round requires a non-negative integer');
-            process.exit(1);
-          }
-          roundNum = num;
-          i++;
-        } else {
-          console.error('❌ Error: --round requires a number');
+        const ranges = i + 1 < argsRest.length ? parseRoundExpression(argsRest[i + 1]) : null;
+        if (!ranges) {
+          console.error('❌ Error: --round requires a round number or expression such as 3-7,10,-1');
+          process.exit(1);
+        }
+        selection.ranges = ranges;
+        i++;
+      } else if (argsRest[i] === '--since' || argsRest[i] === '--until') {
+        const time = i + 1 < argsRest.length ? Date.parse(argsRest[i + 1]) : NaN;
+        if (isNaN(time)) {
+          console.error(`❌ Error: ${argsRest[i]} requires a date or timestamp (e.g. 2026-01-31T12:00:00Z)`);
+          process.exit(1);
+        }
+        selection[argsRest[i] === '--since' ? 'since' : 'until'] = time;
+        i++;
+      } else if (argsRest[i] === '--first' || argsRest[i] === '--last') {
+        const count = i + 1 < argsRest.length ? Number(argsRest[i + 1]) : NaN;
+        if (!Number.isInteger(count) || count <= 0) {
+          console.error(`❌ Error: ${argsRest[i]} requires a positive integer`);
           process.exit(1);
         }
+        selection[argsRest[i] === '--first' ? 'first' : 'last'] = count;
+        i++;
+      } else if (argsRest[i] === '--split') {
+        split = true;
       } else if (argsRest[i] === '-k' || argsRest[i] === '--keyword') {
         if (i + 1 < argsRest.length) {
           keyword = argsRest[i + 1];
@@ -187,6 +867,25 @@ async function main(): Promise<void> {
         }
       } else if (argsRest[i] === '--render') {
         render = true;
+      } else if (argsRest[i] === '--normalize') {
+        normalize = true;
+      } else if (argsRest[i] === '--patches') {
+        patches = true;
+      } else if (argsRest[i] === '--anonymize') {
+        anonymize = true;
+      } else if (argsRest[i] === '--strict') {
+        strict = true;
+      } else if (argsRest[i] === '--repair') {
+        repair = true;
+      } else if (argsRest[i] === '--branch') {
+        branch = parseBranchOption(argsRest, i);
+        i++;
+      } else if (argsRest[i] === '--sidechains') {
+        sidechains = parseSidechainOption(argsRest, i);
+        i++;
+      } else if (argsRest[i] === '--segment') {
+        segment = parseSegmentOption(argsRest, i);
+        i++;
       } else if (argsRest[i] === '--theme') {
         if (i + 1 < argsRest.length) {
           const t = argsRest[i + 1];
@@ -201,7 +900,7 @@ async function main(): Promise<void> {
       }
     }
 
-    return { outputDir, roundNum, keyword, systemFile, render, theme };
+    return { outputDir, selection, split, keyword, systemFile, render, normalize, anonymize, patches, theme, strict, repair, branch, sidechains, segment };
   };
 
   if (command === 'list') {
@@ -212,11 +911,55 @@ async function main(): Promise<void> {
     }
 
     const filePath = args[1];
+    const { strict, repair, branch, sidechains, segment } = parseOutputOptions(args.slice(2));
+    const pricing = await loadPricing(args.slice(2));
+    const diagnostics: ParseDiagnostic[] = [];
+
     try {
-      const entries = await readSessionFile(filePath);
-      const rounds = extractRounds(entries);
-      const output = listRounds(rounds, filePath);
-      printRoundList(output);
+      console.log(`\n📁 File: ${filePath}`);
+
+      if (branch !== null) {
+        // Branches need the whole parentUuid tree, so the file is read in full
+        const tree = buildSessionTree(await readSessionFile(filePath, { strict, repair, diagnostics }));
+        const branches = selectBranches(tree, branch);
+        if (branches.length === 0) {
+          console.error(`❌ Error: Branch ${branch} not found. Total branches: ${tree.branches.length}`);
+          process.exit(1);
+        }
+
+        console.log(`🌿 ${tree.forks.length} fork${tree.forks.length === 1 ? '' : 's'}, ${tree.branches.length} branch${tree.branches.length === 1 ? '' : 'es'}`);
+        for (const b of branches) {
+          const rounds = extractRounds(b.entries, { sidechains, segment, pricing });
+          console.log('─'.repeat(80));
+          console.log(`🌿 Branch #${b.index}${b.isActive ? ' (active)' : ''}: ${rounds.length} rounds, ${b.entries.length} entries${b.leafUuid ? `, leaf ${b.leafUuid.substring(0, 8)}...` : ''}`);
+          for (const round of rounds) {
+            printRoundListItem(toRoundListItem(round));
+          }
+        }
+        console.log('\n' + '─'.repeat(80));
+        printParseDiagnostics(diagnostics);
+        process.exit(0);
+      }
+
+      console.log('─'.repeat(80));
+
+      // Print rounds as they are parsed so huge sessions show output immediately
+      let totalRounds = 0;
+      const usages: RoundUsage[] = [];
+      for await (const round of streamRounds(streamSessionFile(filePath, { strict, repair, diagnostics }), { sidechains, segment, pricing })) {
+        printRoundListItem(toRoundListItem(round));
+        usages.push(round.usage);
+        totalRounds++;
+      }
+
+      const sessionUsage = sumUsage(usages);
+      console.log('\n' + '─'.repeat(80));
+      console.log(`📊 Total rounds: ${totalRounds}`);
+      if (totalTokens(sessionUsage) > 0) {
+        console.log(`🪙 Total tokens: ${formatUsage(sessionUsage)}`);
+      }
+      console.log('');
+      printParseDiagnostics(diagnostics);
     } catch (error) {
       console.error(`❌ Error reading file: ${(error as Error).message}`);
       process.exit(1);
@@ -229,18 +972,27 @@ async function main(): Promise<void> {
     }
 
     const filePath = args[1];
-    const { outputDir, roundNum, keyword, systemFile, render, theme } = parseExtractOptions(args.slice(2));
+    const { outputDir, selection, split, keyword, systemFile, render, normalize, anonymize, patches, theme, strict, repair, branch, sidechains, segment } = parseExtractOptions(args.slice(2));
+    const shareGPT = await parseShareGPTOptions(args.slice(2));
+    const { redactor, reportFile } = await parseRedactionOptions(args.slice(2));
+    const anonymizer = anonymize ? createAnonymizer() : undefined;
+    const pricing = await loadPricing(args.slice(2));
+    const diagnostics: ParseDiagnostic[] = [];
 
     try {
-      // Read session file first to extract context fields
-      const entries = await readSessionFile(filePath);
-      const contextFields = extractContextFields(entries);
-
       // Load system entries if provided, merging with context from actual session
-      let systemEntries: any[] = [];
+      let systemEntries: ClaudeRawEntry[] = [];
       if (systemFile) {
+        const contextFields = await readContextFields(filePath);
         try {
           systemEntries = await loadSystemEntries(systemFile, contextFields);
+          // Merged context fields (cwd, gitBranch, ...) come from the session
+          if (anonymizer) {
+            systemEntries = systemEntries.map((entry) => anonymizer.anonymizeEntry(entry));
+          }
+          if (redactor) {
+            systemEntries = systemEntries.map((entry) => redactor.redactEntry(entry, { file: systemFile }));
+          }
           if (systemEntries.length > 0) {
             console.log(`📋 Loaded ${systemEntries.length} system entr${systemEntries.length === 1 ? 'y' : 'ies'} from: ${systemFile}`);
             if (Object.keys(contextFields).length > 0) {
@@ -253,35 +1005,124 @@ async function main(): Promise<void> {
         }
       }
 
-      let allRounds = extractRounds(entries);
+      // Branches need the whole parentUuid tree, so the file is read in full
+      let branches: SessionBranch[] | null = null;
+      if (branch !== null) {
+        const tree = buildSessionTree(await readSessionFile(filePath, { strict, repair, diagnostics, redactor, anonymizer }));
+        branches = selectBranches(tree, branch);
+        if (branches.length === 0) {
+          console.error(`❌ Error: Branch ${branch} not found. Total branches: ${tree.branches.length}`);
+          process.exit(1);
+        }
+        if (branches.length > 1 && (hasRoundSelection(selection) || keyword !== null)) {
+          console.error('❌ Error: round selection and --keyword need a single branch (--branch active or --branch <n>)');
+          process.exit(1);
+        }
+        if (!hasRoundSelection(selection) || split) {
+          console.log(`🌿 Using ${branches.length} of ${tree.branches.length} branch${tree.branches.length === 1 ? '' : 'es'}`);
+        }
+      }
 
-      if (allRounds.length === 0) {
-        console.log('⚠️  No rounds found in file');
-        process.exit(0);
+      // Rounds are streamed from the file (or taken from a branch); system entries are prepended as each round is emitted
+      async function* readRounds(target: SessionBranch | undefined = branches?.[0], withSystemEntries = true): AsyncGenerator<Round> {
+        const rounds = target
+          ? extractRounds(target.entries, { sidechains, segment, pricing, normalize })
+          : streamRounds(streamSessionFile(filePath, { strict, repair, diagnostics, redactor, anonymizer }), { sidechains, segment, pricing, normalize });
+        for await (const round of rounds) {
+          yield withSystemEntries && systemEntries.length > 0 ? prependSystemEntries([round], systemEntries)[0] : round;
+        }
       }
 
-      // Prepend system entries to all rounds if provided
-      if (systemEntries.length > 0) {
-        allRounds = prependSystemEntries(allRounds, systemEntries);
+      // Negative indexes and --last need the total round count, so selections read every round first
+      async function readSelectedRounds(withSystemEntries = true): Promise<{ rounds: Round[]; totalRounds: number; roundPatches: RoundPatch[] }> {
+        const all: Round[] = [];
+        for await (const round of readRounds(branches?.[0], withSystemEntries)) {
+          all.push(round);
+        }
+        const rounds = selectRounds(all, selection);
+        // Earlier rounds show what the files looked like, so every round goes through the tracker
+        const selected = new Set(rounds.map((round) => round.roundNumber));
+        const roundPatches = patches ? extractRoundPatches(all).filter((patch) => selected.has(patch.roundNumber)) : [];
+        return { rounds, totalRounds: all.length, roundPatches };
       }
 
-      // Extract specific round (output to stdout)
-      if (roundNum !== null) {
-        // Don't pass systemEntries here since they're already prepended to allRounds
-        const content = extractRound(allRounds, roundNum);
-        if (content === null) {
-          console.error(`❌ Error: Round ${roundNum} not found. Total rounds: ${allRounds.length}`);
+      // Output files for a branch get a .branch-<n> suffix
+      const getBasename = (target: SessionBranch | undefined) =>
+        path.basename(filePath, '.jsonl') + (target ? `.branch-${target.index}` : '');
+
+      // Extract selected rounds: combined JSONL to stdout, or one .jsonl file per round with --split
+      if (hasRoundSelection(selection) && keyword === null) {
+        if (patches && !split) {
+          console.error('❌ Error: --patches writes files to -o; combine it with --split when selecting rounds');
+          process.exit(1);
+        }
+        const { rounds, totalRounds, roundPatches } = await readSelectedRounds(false);
+        printParseDiagnostics(diagnostics);
+
+        if (totalRounds === 0) {
+          console.log('⚠️  No rounds found in file');
+          process.exit(0);
+        }
+        if (rounds.length === 0) {
+          console.error(`❌ Error: No rounds match the selection. Total rounds: ${totalRounds}`);
           process.exit(1);
         }
-        console.log(content);
+
+        if (!split) {
+          // System entries are written once, ahead of all selected rounds
+          const lines = systemEntries.map((entry) => JSON.stringify(entry));
+          for (const round of rounds) {
+            lines.push(...round.entries.map((e) => e.rawContent));
+          }
+          console.log(lines.join('\n'));
+          await finishRedaction(redactor, reportFile);
+          process.exit(0);
+        }
+
+        await ensureDir(outputDir);
+        const basename = getBasename(branches?.[0]);
+        for (const round of rounds) {
+          const outputPath = path.join(outputDir, `${basename}.${round.roundNumber}.jsonl`);
+          await fs.writeFile(outputPath, extractRound([round], round.roundNumber, systemEntries)! + '\n', 'utf-8');
+          console.log(`  ✅ Round #${round.roundNumber} → ${outputPath}`);
+        }
+        console.log(`\n✅ Extracted ${rounds.length} of ${totalRounds} rounds to: ${outputDir}`);
+        if (patches) {
+          await writePatches(outputDir, basename, roundPatches);
+        }
+        console.log('');
+        await finishRedaction(redactor, reportFile);
         process.exit(0);
       }
 
-      // Keyword search
+      // Keyword search over the full round content
       if (keyword !== null) {
-        const matchedRounds = allRounds.filter(r =>
-          r.summary.toLowerCase().includes(keyword.toLowerCase())
-        );
+        const searchOptions = parseSearchOptions(args.slice(2));
+        const pattern = compileQueryOrExit(keyword, searchOptions);
+        const matchedRounds: Round[] = [];
+        const results: RoundSearchResult[] = [];
+        const matchedPatches: RoundPatch[] = [];
+        const patchTracker = createPatchTracker();
+        let totalRounds = 0;
+        const candidates = hasRoundSelection(selection) ? (await readSelectedRounds()).rounds : readRounds();
+        for await (const round of candidates) {
+          totalRounds++;
+          const roundPatch = patches ? patchTracker.addRound(round) : null;
+          const result = searchRound(round, pattern, searchOptions);
+          if (result) {
+            matchedRounds.push(round);
+            results.push(result);
+            if (roundPatch) {
+              matchedPatches.push(roundPatch);
+            }
+          }
+        }
+        printParseDiagnostics(diagnostics);
+
+        if (totalRounds === 0) {
+          console.log('⚠️  No rounds found in file');
+          process.exit(0);
+        }
 
         if (matchedRounds.length === 0) {
           console.log(`⚠️  No rounds found matching keyword: "${keyword}"`);
@@ -290,7 +1131,7 @@ async function main(): Promise<void> {
 
         await ensureDir(outputDir);
 
-        const basename = path.basename(filePath, '.jsonl');
+        const basename = getBasename(branches?.[0]);
         // Use numeric suffix in filename (e.g., tb-bugfix-ci.0.json or tb-bugfix-ci.0-3.json)
         const firstRound = matchedRounds[0].roundNumber;
         const lastRound = matchedRounds[matchedRounds.length - 1].roundNumber;
@@ -301,9 +1142,22 @@ async function main(): Promise<void> {
         await fs.writeFile(outputPath, JSON.stringify(matchedRounds, null, 2), 'utf-8');
 
         console.log(`\n✅ Found ${matchedRounds.length} rounds matching "${keyword}"`);
-        console.log(`   Extracted to: ${outputPath}\n`);
-        for (const round of matchedRounds) {
-          console.log(`  Round #${round.roundNumber}: ${round.summary.substring(0, 60)}${round.summary.length > 60 ? '...' : ''}`);
+        console.log(`   Extracted to: ${outputPath}`);
+        if (shareGPT.enabled) {
+          const shareGPTPath = path.join(outputDir, `${path.basename(filename, '.json')}.sharegpt.jsonl`);
+          const shareGPTWriter = await openShareGPTWriter(shareGPTPath, systemEntries, shareGPT.options);
+          for (const round of matchedRounds) {
+            await shareGPTWriter.write(round);
+          }
+          const count = await shareGPTWriter.close();
+          console.log(`   ShareGPT: ${count} conversation${count === 1 ? '' : 's'} → ${shareGPTPath}`);
+        }
+        if (patches) {
+          await writePatches(outputDir, path.basename(filename, '.json'), matchedPatches);
+        }
+        console.log('');
+        for (const result of results) {
+          printSearchResult(result);
         }
         console.log('');
 
@@ -322,49 +1176,244 @@ async function main(): Promise<void> {
 
           console.log(`\n✅ Rendered to: ${htmlPath}\n`);
         }
+        await finishRedaction(redactor, reportFile);
         process.exit(0);
       }
 
-      // Default: extract all rounds
-      await ensureDir(outputDir);
+      // Default: extract all rounds (per branch if selected), writing each one as soon as it is complete
+      for (const target of branches ?? [undefined]) {
+        const basename = getBasename(target);
+        const outputPath = path.join(outputDir, `${basename}.json`);
+        let writer: Awaited<ReturnType<typeof openJsonArrayWriter>> | null = null;
+        let shareGPTWriter: Awaited<ReturnType<typeof openShareGPTWriter>> | null = null;
+        const shareGPTPath = path.join(outputDir, `${basename}.sharegpt.jsonl`);
+        const summaries: string[] = [];
+        // Rendering needs every round at once, so only keep them when asked to
+        const renderRounds: Round[] = [];
+        const patchTracker = createPatchTracker();
+        const roundPatches: RoundPatch[] = [];
+
+        for await (const round of readRounds(target)) {
+          if (!writer) {
+            await ensureDir(outputDir);
+            writer = await openJsonArrayWriter(outputPath);
+            if (shareGPT.enabled) {
+              shareGPTWriter = await openShareGPTWriter(shareGPTPath, systemEntries, shareGPT.options);
+            }
+          }
+          await writer.write(round);
+          await shareGPTWriter?.write(round);
+          summaries.push(`  Round #${round.roundNumber}: ${round.summary.substring(0, 60)}${round.summary.length > 60 ? '...' : ''}`);
+          if (render) {
+            renderRounds.push(round);
+          }
+          if (patches) {
+            roundPatches.push(patchTracker.addRound(round));
+          }
+        }
 
-      const basename = path.basename(filePath, '.jsonl');
-      const outputPath = path.join(outputDir, `${basename}.json`);
-      await fs.writeFile(outputPath, JSON.stringify(allRounds, null, 2), 'utf-8');
+        if (!writer) {
+          console.log(`⚠️  No rounds found in ${target ? `branch #${target.index}` : 'file'}`);
+          continue;
+        }
+        await writer.close();
 
-      console.log(`\n✅ Extracted ${allRounds.length} rounds to: ${outputPath}\n`);
-      for (const round of allRounds) {
-        console.log(`  Round #${round.roundNumber}: ${round.summary.substring(0, 60)}${round.summary.length > 60 ? '...' : ''}`);
-      }
-      console.log('');
+        console.log(`\n✅ Extracted ${summaries.length} rounds${target ? ` of branch #${target.index}${target.isActive ? ' (active)' : ''}` : ''} to: ${outputPath}`);
+        if (shareGPTWriter) {
+          const count = await shareGPTWriter.close();
+          console.log(`   ShareGPT: ${count} conversation${count === 1 ? '' : 's'} → ${shareGPTPath}`);
+        }
+        if (patches) {
+          await writePatches(outputDir, basename, roundPatches, patchTracker.combined());
+        }
+        console.log('');
+        for (const summary of summaries) {
+          console.log(summary);
+        }
+        console.log('');
 
-      // Auto-render if requested
-      if (render) {
-        const htmlOutputDir = path.join(outputDir, 'html');
-        await ensureDir(htmlOutputDir);
+        // Auto-render if requested
+        if (render) {
+          const htmlOutputDir = path.join(outputDir, 'html');
+          await ensureDir(htmlOutputDir);
 
-        console.log(`\n📁 Rendering ${allRounds.length} rounds to HTML`);
-        console.log(`   Output: ${htmlOutputDir} (${theme} theme)`);
+          console.log(`\n📁 Rendering ${renderRounds.length} rounds to HTML`);
+          console.log(`   Output: ${htmlOutputDir} (${theme} theme)`);
 
-        const html = renderFileToHtml(allRounds, outputPath, { theme });
-        const htmlPath = path.join(htmlOutputDir, `${basename}.html`);
-        await fs.writeFile(htmlPath, html, 'utf-8');
+          const html = renderFileToHtml(renderRounds, outputPath, { theme });
+          const htmlPath = path.join(htmlOutputDir, `${basename}.html`);
+          await fs.writeFile(htmlPath, html, 'utf-8');
 
-        console.log(`\n✅ Rendered to: ${htmlPath}\n`);
+          console.log(`\n✅ Rendered to: ${htmlPath}\n`);
+        }
       }
+      printParseDiagnostics(diagnostics);
+      await finishRedaction(redactor, reportFile);
     } catch (error) {
       console.error(`❌ Error: ${(error as Error).message}`);
       process.exit(1);
     }
-  } else if (command === 'render') {
+  } else if (command === 'export') {
     if (args.length < 2) {
-      console.error('❌ Error: rounds.json/jsonl file path required');
+      console.error('❌ Error: File path required');
       console.log(USAGE);
       process.exit(1);
     }
 
-    const roundsJsonPath = args[1];
-    const { outputDir, theme } = parseOutputOptions(args.slice(2));
+    const filePath = args[1];
+    const { outputDir, selection, systemFile, anonymize, strict, repair, branch, sidechains, segment } = parseExtractOptions(args.slice(2));
+    const shareGPT = await parseShareGPTOptions(args.slice(2));
+    const { redactor, reportFile } = await parseRedactionOptions(args.slice(2));
+    const anonymizer = anonymize ? createAnonymizer() : undefined;
+    let format: ExportFormat | null = null;
+    let stripThinking = false;
+    let maxTokens: number | undefined;
+    let model: string | undefined;
+    for (let i = 2; i < args.length; i++) {
+      if (args[i] === '--strip-thinking') {
+        stripThinking = true;
+      } else if (args[i] === '--max-tokens') {
+        maxTokens = parseInt(args[i + 1], 10);
+        if (isNaN(maxTokens) || maxTokens < 1) {
+          console.error(`❌ Error: --max-tokens must be a positive number: ${args[i + 1]}`);
+          process.exit(1);
+        }
+        i++;
+      } else if (args[i] === '--model') {
+        model = args[i + 1];
+        if (!model) {
+          console.error('❌ Error: --model requires a model id');
+          process.exit(1);
+        }
+        i++;
+      } else if (args[i] === '-f' || args[i] === '--format') {
+        const f = args[i + 1];
+        if (!EXPORT_FORMATS.includes(f as ExportFormat)) {
+          console.error(`❌ Error: --format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+          process.exit(1);
+        }
+        format = f as ExportFormat;
+        i++;
+      }
+    }
+    if (format === null) {
+      console.error(`❌ Error: --format is required (${EXPORT_FORMATS.join(', ')})`);
+      process.exit(1);
+    }
+    const diagnostics: ParseDiagnostic[] = [];
+
+    try {
+      let systemEntries = systemFile ? await loadSystemEntries(systemFile, await readContextFields(filePath)) : [];
+      if (anonymizer) {
+        systemEntries = systemEntries.map((entry) => anonymizer.anonymizeEntry(entry));
+      }
+      if (redactor) {
+        systemEntries = systemEntries.map((entry) => redactor.redactEntry(entry, { file: systemFile ?? undefined }));
+      }
+
+      let target: SessionBranch | undefined;
+      if (branch !== null) {
+        const tree = buildSessionTree(await readSessionFile(filePath, { strict, repair, diagnostics, redactor, anonymizer }));
+        const branches = selectBranches(tree, branch);
+        if (branches.length !== 1) {
+          console.error(branches.length === 0
+            ? `❌ Error: Branch ${branch} not found. Total branches: ${tree.branches.length}`
+            : '❌ Error: export needs a single branch (--branch active or --branch <n>)');
+          process.exit(1);
+        }
+        target = branches[0];
+      }
+
+      let rounds: Iterable<Round> | AsyncIterable<Round> = target
+        ? extractRounds(target.entries, { sidechains, segment })
+        : streamRounds(streamSessionFile(filePath, { strict, repair, diagnostics, redactor, anonymizer }), { sidechains, segment });
+      if (hasRoundSelection(selection)) {
+        // Negative indexes and --last need the total round count
+        const all: Round[] = [];
+        for await (const round of rounds) {
+          all.push(round);
+        }
+        rounds = selectRounds(all, selection);
+      }
+
+      await ensureDir(outputDir);
+      const basename = path.basename(filePath, '.jsonl') + (target ? `.branch-${target.index}` : '');
+      const outputPath = path.join(outputDir, `${basename}.${format}.jsonl`);
+      const handle = await fs.open(outputPath, 'w');
+
+      let exported = 0;
+      let skipped = 0;
+      try {
+        for await (const round of rounds) {
+          let record: OpenAIRecord | AnthropicMessagesRequest | ShareGPTRecord;
+          let problems: string[];
+          if (format === 'sharegpt') {
+            record = roundToShareGPT(round, systemEntries, shareGPT.options);
+            if (!isShareGPTConversation(record)) continue;
+            problems = [];
+          } else if (format === 'anthropic-messages') {
+            const request = roundToAnthropicRequest(round, systemEntries, { stripThinking, maxTokens, model });
+            // Rounds without a conversation (e.g. summaries before the first prompt) are not examples
+            if (request.messages.length === 0) continue;
+            record = request;
+            problems = validateAnthropicRequest(request);
+          } else {
+            const messages = roundToOpenAIMessages(round, systemEntries);
+            if (!messages.some((m) => m.role === 'user' || m.role === 'assistant')) continue;
+            record = { messages };
+            problems = validateOpenAIMessages(messages);
+          }
+
+          if (problems.length > 0) {
+            console.warn(`  ⚠️  Round #${round.roundNumber} skipped: ${problems.join('; ')}`);
+            skipped++;
+            continue;
+          }
+          await handle.write(JSON.stringify(record) + '\n');
+          exported++;
+        }
+      } finally {
+        await handle.close();
+      }
+      printParseDiagnostics(diagnostics);
+
+      console.log(`\n✅ Exported ${exported} round${exported === 1 ? '' : 's'} as ${format} to: ${outputPath}`);
+      if (skipped > 0) {
+        console.log(`⚠️  Skipped ${skipped} invalid round${skipped === 1 ? '' : 's'}`);
+      }
+      console.log('');
+      await finishRedaction(redactor, reportFile);
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (command === 'render') {
+    if (args.length < 2) {
+      console.error('❌ Error: rounds.json/jsonl file path required');
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const roundsJsonPath = args[1];
+    const { outputDir, theme, anonymize, strict, repair, sidechains, segment } = parseOutputOptions(args.slice(2));
+    const { redactor, reportFile } = await parseRedactionOptions(args.slice(2));
+    const anonymizer = anonymize ? createAnonymizer() : undefined;
+    const pricing = await loadPricing(args.slice(2));
+    let format: 'html' | 'md' = 'html';
+    let perRound = false;
+    for (let i = 2; i < args.length; i++) {
+      if (args[i] === '-f' || args[i] === '--format') {
+        const f = args[i + 1];
+        if (f !== 'html' && f !== 'md') {
+          console.error('❌ Error: --format must be "html" or "md"');
+          process.exit(1);
+        }
+        format = f;
+        i++;
+      } else if (args[i] === '--per-round') {
+        perRound = true;
+      }
+    }
 
     try {
       await ensureDir(outputDir);
@@ -373,13 +1422,20 @@ async function main(): Promise<void> {
 
       // Check file extension to determine parsing method
       if (roundsJsonPath.endsWith('.jsonl')) {
-        // Read entries from JSONL file and extract rounds
-        const entries = await readSessionFile(roundsJsonPath);
-        rounds = extractRounds(entries);
+        // Stream entries from JSONL file and extract rounds
+        const diagnostics: ParseDiagnostic[] = [];
+        rounds = await readSessionRounds(roundsJsonPath, { strict, repair, diagnostics, redactor, anonymizer }, { sidechains, segment, pricing });
+        printParseDiagnostics(diagnostics);
       } else {
         // Read rounds from JSON file
         const jsonContent = await fs.readFile(roundsJsonPath, 'utf-8');
         rounds = JSON.parse(jsonContent) as Round[];
+        if (anonymizer) {
+          rounds = anonymizeRounds(rounds, anonymizer);
+        }
+        if (redactor) {
+          rounds = rounds.map((round) => redactRound(round, redactor, roundsJsonPath));
+        }
       }
 
       if (rounds.length === 0) {
@@ -387,17 +1443,35 @@ async function main(): Promise<void> {
         process.exit(0);
       }
 
-      console.log(`\n📁 Rendering ${rounds.length} rounds to HTML`);
+      console.log(`\n📁 Rendering ${rounds.length} rounds to ${format === 'md' ? 'Markdown' : 'HTML'}`);
       console.log(`   Input: ${roundsJsonPath}`);
-      console.log(`   Output: ${outputDir} (${theme} theme)`);
+      console.log(`   Output: ${outputDir}${format === 'html' ? ` (${theme} theme)` : ''}`);
 
-      // Render all rounds to a single HTML file
-      const html = renderFileToHtml(rounds, roundsJsonPath, { theme });
       const basename = path.basename(roundsJsonPath, path.extname(roundsJsonPath));
-      const outputPath = path.join(outputDir, `${basename}.html`);
-      await fs.writeFile(outputPath, html, 'utf-8');
-
-      console.log(`\n✅ Rendered to: ${outputPath}\n`);
+      if (perRound) {
+        // One file per round: {basename}-{n}.html / .md
+        for (const round of rounds) {
+          const outputPath = format === 'md'
+            ? path.join(outputDir, getMarkdownFilename(basename, round.roundNumber))
+            : path.join(outputDir, getHtmlFilename(basename, round.roundNumber));
+          const output = format === 'md'
+            ? renderRoundToMarkdown(round, basename)
+            : renderRoundToHtml(round, { theme, sourceFile: basename });
+          await fs.writeFile(outputPath, output, 'utf-8');
+          console.log(`  ✅ Round #${round.roundNumber} → ${outputPath}`);
+        }
+        console.log(`\n✅ Rendered ${rounds.length} rounds to: ${outputDir}\n`);
+      } else {
+        // Render all rounds to a single file
+        const output = format === 'md'
+          ? renderFileToMarkdown(rounds, basename)
+          : renderFileToHtml(rounds, roundsJsonPath, { theme });
+        const outputPath = path.join(outputDir, `${basename}.${format}`);
+        await fs.writeFile(outputPath, output, 'utf-8');
+
+        console.log(`\n✅ Rendered to: ${outputPath}\n`);
+      }
+      await finishRedaction(redactor, reportFile);
     } catch (error) {
       console.error(`❌ Error: ${(error as Error).message}`);
       process.exit(1);
@@ -410,7 +1484,9 @@ async function main(): Promise<void> {
     }
 
     const inputDir = args[1];
-    const { outputDir, theme, recursive } = parseOutputOptions(args.slice(2));
+    const { outputDir, theme, recursive, anonymize, strict, repair, sidechains, segment } = parseOutputOptions(args.slice(2));
+    const { redactor, reportFile } = await parseRedactionOptions(args.slice(2));
+    const pricing = await loadPricing(args.slice(2));
 
     /**
      * Recursively scan directory for JSON and JSONL files
@@ -425,7 +1501,7 @@ async function main(): Promise<void> {
         if (entry.isDirectory() && recursive) {
           const subFiles = await scanDirectory(fullPath, recursive);
           files.push(...subFiles);
-        } else if (entry.isFile()) {
+        } else if (entry.isFile() && !entry.name.startsWith('._')) {
           if (entry.name.endsWith('.json') || entry.name.endsWith('.jsonl')) {
             files.push(fullPath);
           }
@@ -454,17 +1530,37 @@ async function main(): Promise<void> {
       let successCount = 0;
       let jsonCount = 0;
       let jsonlCount = 0;
+      const fileUsages: RoundUsage[] = [];
+
+      // Per-file token totals for the summary line (rounds from older .json exports have no usage)
+      const describeUsage = (rounds: Round[]): string => {
+        const usage = sumUsage(rounds.flatMap((round) => (round.usage ? [round.usage] : [])));
+        fileUsages.push(usage);
+        if (totalTokens(usage) === 0) {
+          return '';
+        }
+        const cost = usage.estimatedCost !== null ? `, ~${formatCost(usage.estimatedCost)}` : '';
+        return `, ${formatTokenCount(totalTokens(usage))} tokens${cost}`;
+      };
 
       for (const filePath of files) {
         const ext = path.extname(filePath);
         const fileName = path.basename(filePath);
+        // Each file is one session: /project and user1 refer to that session's own root and user
+        const anonymizer = anonymize ? createAnonymizer() : undefined;
 
         try {
           if (ext === '.json') {
             jsonCount++;
             // Read rounds from JSON file
             const jsonContent = await fs.readFile(filePath, 'utf-8');
-            const rounds = JSON.parse(jsonContent) as Round[];
+            let rounds = JSON.parse(jsonContent) as Round[];
+            if (anonymizer) {
+              rounds = anonymizeRounds(rounds, anonymizer);
+            }
+            if (redactor) {
+              rounds = rounds.map((round) => redactRound(round, redactor, filePath));
+            }
 
             if (rounds.length === 0) {
               console.log(`  ⚠️  ${fileName}: No rounds found, skipping`);
@@ -477,12 +1573,13 @@ async function main(): Promise<void> {
             const outputPath = path.join(outputDir, `${basename}.html`);
             await fs.writeFile(outputPath, html, 'utf-8');
             successCount++;
-            console.log(`  ✅ ${fileName} → ${basename}.html (${rounds.length} rounds)`);
+            console.log(`  ✅ ${fileName} → ${basename}.html (${rounds.length} rounds${describeUsage(rounds)})`);
           } else if (ext === '.jsonl') {
             jsonlCount++;
-            // Read entries from JSONL file and extract rounds
-            const entries = await readSessionFile(filePath);
-            const rounds = extractRounds(entries);
+            // Stream entries from JSONL file and extract rounds
+            const diagnostics: ParseDiagnostic[] = [];
+            const rounds = await readSessionRounds(filePath, { strict, repair, diagnostics, redactor, anonymizer }, { sidechains, segment, pricing });
+            printParseDiagnostics(diagnostics, '  ');
 
             if (rounds.length === 0) {
               console.log(`  ⚠️  ${fileName}: No rounds found, skipping`);
@@ -495,7 +1592,7 @@ async function main(): Promise<void> {
             const outputPath = path.join(outputDir, `${basename}.html`);
             await fs.writeFile(outputPath, html, 'utf-8');
             successCount++;
-            console.log(`  ✅ ${fileName} → ${basename}.html (${rounds.length} rounds)`);
+            console.log(`  ✅ ${fileName} → ${basename}.html (${rounds.length} rounds${describeUsage(rounds)})`);
           }
         } catch (error) {
           console.log(`  ❌ ${fileName}: ${(error as Error).message}`);
@@ -504,7 +1601,12 @@ async function main(): Promise<void> {
 
       console.log('─'.repeat(80));
       console.log(`\n📊 Statistics: ${jsonCount} .json files, ${jsonlCount} .jsonl files`);
+      const totalUsage = sumUsage(fileUsages);
+      if (totalTokens(totalUsage) > 0) {
+        console.log(`🪙 Total tokens: ${formatUsage(totalUsage)}`);
+      }
       console.log(`✅ Successfully rendered ${successCount}/${files.length} files\n`);
+      await finishRedaction(redactor, reportFile);
     } catch (error) {
       console.error(`❌ Error: ${(error as Error).message}`);
       process.exit(1);
@@ -517,33 +1619,30 @@ async function main(): Promise<void> {
     }
 
     const inputDir = args[1];
-    const { outputDir, recursive, extract } = parseOutputOptions(args.slice(2));
-
-    // Override default output directory for thinking command
-    const thinkingOutputDir = outputDir === './output' ? './output/thinking' : outputDir;
-
-    /**
-     * Recursively scan directory for JSONL files
-     */
-    async function scanJsonlDirectory(dir: string, recursive: boolean): Promise<string[]> {
-      const files: string[] = [];
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-
-        if (entry.isDirectory() && recursive) {
-          const subFiles = await scanJsonlDirectory(fullPath, recursive);
-          files.push(...subFiles);
-        } else if (entry.isFile()) {
-          if (entry.name.endsWith('.jsonl')) {
-            files.push(fullPath);
-          }
+    const { outputDir, recursive, extract, strict, repair } = parseOutputOptions(args.slice(2));
+    const shareGPT = await parseShareGPTOptions(args.slice(2));
+    const showStats = args.slice(2).includes('--stats');
+    const triples = args.slice(2).includes('--triples');
+    const filter: ThinkingFilter = {};
+    for (let i = 2; i < args.length; i++) {
+      const value = args[i + 1];
+      if (args[i] === '--level' && value) {
+        filter.levels = value.split(',').map((level) => level.trim()).filter((level) => level !== '');
+        i++;
+      } else if (args[i] === '--min-length') {
+        filter.minLength = parseInt(value, 10);
+        if (isNaN(filter.minLength) || filter.minLength < 0) {
+          console.error(`❌ Error: --min-length must be a number of characters: ${value}`);
+          process.exit(1);
         }
+        i++;
       }
-
-      return files;
     }
+    // Rounds are read up front when they are measured, filtered or turned into triples
+    const analyze = showStats || triples || filter.levels !== undefined || filter.minLength !== undefined;
+
+    // Override default output directory for thinking command
+    const thinkingOutputDir = outputDir === './output' ? './output/thinking' : outputDir;
 
     try {
       await ensureDir(thinkingOutputDir);
@@ -560,51 +1659,97 @@ async function main(): Promise<void> {
       console.log(`   Input: ${inputDir}${recursive ? ' (recursive)' : ''}`);
       console.log(`   Output: ${thinkingOutputDir}`);
       console.log(`   Mode: ${extract ? 'extract rounds with thinking to .json' : 'copy .jsonl files with thinking'}`);
+      if (filter.levels || filter.minLength !== undefined) {
+        const conditions = [filter.levels ? `level ${filter.levels.join(' or ')}` : null, filter.minLength !== undefined ? `at least ${filter.minLength} chars` : null];
+        console.log(`   Filter: rounds with ${conditions.filter(Boolean).join(' and ')} of thinking`);
+      }
       console.log('─'.repeat(80));
 
       let thinkingFileCount = 0;
       let processedCount = 0;
       let totalThinkingRounds = 0;
+      const statsReport: Array<{ file: string; rounds: ThinkingStats[] }> = [];
+      const triplesPath = path.join(thinkingOutputDir, 'thinking-triples.jsonl');
+      const tripleWriter = triples ? await openThinkingTripleWriter(triplesPath) : null;
 
       for (const filePath of files) {
         const fileName = path.basename(filePath);
+        const diagnostics: ParseDiagnostic[] = [];
 
         try {
-          const entries = await readSessionFile(filePath);
+          let fileHasThinking = false;
+          let selectedRounds: Round[] | null = null;
+          const fileStats: ThinkingStats[] = [];
+          if (analyze) {
+            selectedRounds = [];
+            for await (const round of streamRounds(streamSessionFile(filePath, { strict, repair, diagnostics }))) {
+              if (!roundHasThinking(round)) continue;
+              const stats = computeThinkingStats(round);
+              fileStats.push(stats);
+              if (matchesThinkingFilter(stats, filter)) {
+                selectedRounds.push(round);
+                await tripleWriter?.write(round, filePath);
+              }
+            }
+            fileHasThinking = selectedRounds.length > 0;
+            if (fileStats.length > 0) {
+              statsReport.push({ file: filePath, rounds: fileStats });
+            }
+          } else {
+            // Stop reading at the first entry with thinking
+            for await (const entry of streamSessionFile(filePath, { strict, repair, diagnostics })) {
+              if (entryHasThinking(entry)) {
+                fileHasThinking = true;
+                break;
+              }
+            }
+          }
 
-          if (hasThinking(entries)) {
+          if (fileHasThinking) {
             thinkingFileCount++;
 
             if (extract) {
-              // Extract rounds with thinking to individual .jsonl files
-              const allRounds = extractRounds(entries);
-              const thinkingRounds = extractRoundsWithThinking(allRounds);
-
-              if (thinkingRounds.length > 0) {
-                totalThinkingRounds += thinkingRounds.length;
+              // Extract rounds with thinking to individual .jsonl files, one round at a time
+              const basename = path.basename(fileName, '.jsonl');
+              const thinkingRoundNumbers: number[] = [];
+              // Thinking is what this dataset is about, so it is always included
+              const shareGPTPath = path.join(thinkingOutputDir, `${basename}.sharegpt.jsonl`);
+              let shareGPTWriter: Awaited<ReturnType<typeof openShareGPTWriter>> | null = null;
+              if (!selectedRounds) {
+                // The scan stopped at the first thinking entry; this pass reads the whole file
+                diagnostics.length = 0;
+              }
 
-                // Create output path
-                const basename = path.basename(fileName, '.jsonl');
+              for await (const round of selectedRounds ?? streamRounds(streamSessionFile(filePath, { strict, repair, diagnostics }))) {
+                if (!roundHasThinking(round)) {
+                  continue;
+                }
 
                 // Create subdirectories if needed
-                const outputSubdir = path.dirname(path.join(thinkingOutputDir, `${basename}.jsonl`));
-                await ensureDir(outputSubdir);
-
-                // Write each thinking round as a separate .jsonl file
-                for (const round of thinkingRounds) {
-                  const outputPath = path.join(thinkingOutputDir, `${basename}.${round.roundNumber}.jsonl`);
-                  const lines: string[] = [];
-
-                  // Write all entries in the round
-                  for (const entry of round.entries) {
-                    lines.push(entry.rawContent);
+                if (thinkingRoundNumbers.length === 0) {
+                  const outputSubdir = path.dirname(path.join(thinkingOutputDir, `${basename}.jsonl`));
+                  await ensureDir(outputSubdir);
+                  if (shareGPT.enabled) {
+                    shareGPTWriter = await openShareGPTWriter(shareGPTPath, [], { ...shareGPT.options, includeThinking: true });
                   }
-
-                  await fs.writeFile(outputPath, lines.join('\n'), 'utf-8');
-                  processedCount++;
                 }
+                await shareGPTWriter?.write(round);
+
+                // Write all entries in the round
+                const outputPath = path.join(thinkingOutputDir, `${basename}.${round.roundNumber}.jsonl`);
+                const lines = round.entries.map((entry) => entry.rawContent);
+                await fs.writeFile(outputPath, lines.join('\n'), 'utf-8');
+                thinkingRoundNumbers.push(round.roundNumber);
+                processedCount++;
+              }
 
-                console.log(`  ✅ ${fileName} → ${basename}.${thinkingRounds.map(r => r.roundNumber).join(',')}.jsonl (${thinkingRounds.length} thinking round${thinkingRounds.length === 1 ? '' : 's'})`);
+              if (thinkingRoundNumbers.length > 0) {
+                totalThinkingRounds += thinkingRoundNumbers.length;
+                console.log(`  ✅ ${fileName} → ${basename}.${thinkingRoundNumbers.join(',')}.jsonl (${thinkingRoundNumbers.length} thinking round${thinkingRoundNumbers.length === 1 ? '' : 's'})`);
+              }
+              if (shareGPTWriter) {
+                const count = await shareGPTWriter.close();
+                console.log(`     ShareGPT: ${count} conversation${count === 1 ? '' : 's'} → ${path.relative(thinkingOutputDir, shareGPTPath)}`);
               }
             } else {
               // Copy file to output directory, preserving subdirectory structure
@@ -622,13 +1767,39 @@ async function main(): Promise<void> {
               console.log(`  ✅ ${fileName} → ${relativePath}`);
             }
           }
+          printParseDiagnostics(diagnostics, '  ');
+          if (showStats && fileStats.length > 0) {
+            if (!fileHasThinking) {
+              console.log(`  ⏭️  ${fileName}: no round matches the filter`);
+            }
+            printThinkingStats(fileStats);
+          }
         } catch (error) {
           console.log(`  ⚠️  ${fileName}: ${(error as Error).message}`);
         }
       }
 
       console.log('─'.repeat(80));
-      console.log(`\n📊 Statistics: ${thinkingFileCount}/${files.length} files have thinking metadata`);
+      console.log(`\n📊 Statistics: ${thinkingFileCount}/${files.length} files have thinking metadata${analyze && (filter.levels || filter.minLength !== undefined) ? ' matching the filter' : ''}`);
+      if (showStats) {
+        const rounds = statsReport.flatMap((report) => report.rounds);
+        const blocks = rounds.reduce((sum, round) => sum + round.blocks, 0);
+        const redacted = rounds.reduce((sum, round) => sum + round.redactedBlocks, 0);
+        const thinkingChars = rounds.reduce((sum, round) => sum + round.thinkingChars, 0);
+        const visibleChars = rounds.reduce((sum, round) => sum + round.visibleChars, 0);
+        console.log(
+          `   ${rounds.length} thinking round${rounds.length === 1 ? '' : 's'}, ${blocks} block${blocks === 1 ? '' : 's'}${redacted > 0 ? ` (+${redacted} redacted)` : ''}, ` +
+            `${thinkingChars.toLocaleString()} chars (~${formatTokenCount(estimateTokens(thinkingChars))} tokens)` +
+            (visibleChars > 0 ? `, ${(thinkingChars / visibleChars).toFixed(1)}× visible output` : '')
+        );
+        const statsPath = path.join(thinkingOutputDir, 'thinking-stats.json');
+        await fs.writeFile(statsPath, JSON.stringify(statsReport, null, 2), 'utf-8');
+        console.log(`   Per-round statistics → ${statsPath}`);
+      }
+      if (tripleWriter) {
+        const count = await tripleWriter.close();
+        console.log(`   Triples: ${count} (prompt, thinking, answer) record${count === 1 ? '' : 's'} → ${triplesPath}`);
+      }
       if (extract) {
         console.log(`✅ Extracted ${totalThinkingRounds} thinking round${totalThinkingRounds === 1 ? '' : 's'} from ${thinkingFileCount} file${thinkingFileCount === 1 ? '' : 's'} to ${thinkingOutputDir}\n`);
       } else {
@@ -642,6 +1813,538 @@ async function main(): Promise<void> {
       console.error(`❌ Error: ${(error as Error).message}`);
       process.exit(1);
     }
+  } else if (command === 'query') {
+    if (args.length < 3) {
+      console.error('❌ Error: Query text and file or directory path required');
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const query = args[1];
+    const inputPath = args[2];
+    const argsRest = args.slice(3);
+    let recursive = true;
+    let all = false;
+    let strict = false;
+    let repair = false;
+    let format: QueryFormat = 'json';
+    let outputFile: string | null = null;
+    const queryOptions: Pick<SearchOptions, 'mode' | 'caseSensitive'> = { mode: 'substring', caseSensitive: false };
+
+    for (let i = 0; i < argsRest.length; i++) {
+      if (argsRest[i] === '-m' || argsRest[i] === '--mode') {
+        const mode = argsRest[i + 1];
+        if (mode !== 'substring' && mode !== 'regex' && mode !== 'exact') {
+          console.error('❌ Error: --mode must be "substring", "regex" or "exact"');
+          process.exit(1);
+        }
+        queryOptions.mode = mode;
+        i++;
+      } else if (argsRest[i] === '-c' || argsRest[i] === '--case-sensitive') {
+        queryOptions.caseSensitive = true;
+      } else if (argsRest[i] === '-i' || argsRest[i] === '--ignore-case') {
+        queryOptions.caseSensitive = false;
+      } else if (argsRest[i] === '-r' || argsRest[i] === '--recursive') {
+        recursive = true;
+      } else if (argsRest[i] === '-R' || argsRest[i] === '--no-recursive') {
+        recursive = false;
+      } else if (argsRest[i] === '-a' || argsRest[i] === '--all') {
+        all = true;
+      } else if (argsRest[i] === '--strict') {
+        strict = true;
+      } else if (argsRest[i] === '--repair') {
+        repair = true;
+      } else if (argsRest[i] === '-f' || argsRest[i] === '--format') {
+        const f = argsRest[i + 1];
+        if (f !== 'json' && f !== 'jsonl' && f !== 'text') {
+          console.error('❌ Error: --format must be "json", "jsonl" or "text"');
+          process.exit(1);
+        }
+        format = f;
+        i++;
+      } else if (argsRest[i] === '-o' || argsRest[i] === '--output') {
+        if (i + 1 < argsRest.length) {
+          outputFile = argsRest[i + 1];
+          i++;
+        } else {
+          console.error('❌ Error: --output requires a path');
+          process.exit(1);
+        }
+      }
+    }
+    if (queryOptions.mode === 'regex') {
+      compileQueryOrExit(query, { ...queryOptions, fields: SEARCH_FIELDS });
+    }
+
+    try {
+      const stat = await fs.stat(inputPath);
+      if (!stat.isDirectory() && !inputPath.endsWith('.jsonl')) {
+        console.error(`❌ Error: File is not a .jsonl file: ${inputPath}`);
+        process.exit(1);
+      }
+      const files = stat.isDirectory() ? (await scanJsonlDirectory(inputPath, recursive)).sort() : [inputPath];
+      if (files.length === 0) {
+        console.error(`❌ Error: No .jsonl files found in ${inputPath}`);
+        process.exit(1);
+      }
+
+      // Status goes to stderr so stdout carries only the trajectories
+      const matches: Trajectory[] = [];
+      for (const filePath of files) {
+        const diagnostics: ParseDiagnostic[] = [];
+        try {
+          for await (const round of streamRounds(streamSessionFile(filePath, { strict, repair, diagnostics }), { sidechains: 'inline' })) {
+            const trajectory = roundToTrajectory(round, filePath);
+            if (trajectory && matchesQuery(trajectory, query, queryOptions)) {
+              matches.push(trajectory);
+            }
+          }
+        } catch (error) {
+          console.warn(`⚠️  Skipping ${filePath}: ${(error as Error).message}`);
+        }
+        if (diagnostics.length > 0) {
+          console.warn(`📁 ${filePath}`);
+          printParseDiagnostics(diagnostics, '  ');
+        }
+      }
+
+      if (matches.length === 0) {
+        console.error('❌ Error: No matching trajectory found');
+        process.exit(1);
+      }
+
+      const selected = all ? matches : [selectBestTrajectory(matches, (message) => console.error(message))!];
+      const output = formatTrajectories(selected, format);
+
+      if (outputFile) {
+        await fs.writeFile(outputFile, output, 'utf-8');
+        console.log(`✅ Extracted ${selected.length} trajector${selected.length === 1 ? 'y' : 'ies'} to: ${outputFile}`);
+      } else {
+        console.log(output);
+      }
+
+      if (!all && files.length > 1) {
+        console.error(`\nFound in: ${selected[0].filePath} (round #${selected[0].roundNumber})`);
+      }
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (command === 'search') {
+    if (args.length < 3) {
+      console.error('❌ Error: File or directory path and search query required');
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const inputPath = args[1];
+    const query = args[2];
+    const { recursive, strict, repair, sidechains, segment } = parseOutputOptions(args.slice(3));
+    const searchOptions = parseSearchOptions(args.slice(3));
+    const pattern = compileQueryOrExit(query, searchOptions);
+    const json = args.slice(3).includes('--json');
+
+    try {
+      const stat = await fs.stat(inputPath);
+      const files = stat.isDirectory() ? await scanJsonlDirectory(inputPath, recursive) : [inputPath];
+
+      if (files.length === 0) {
+        console.log(`⚠️  No .jsonl files found in directory`);
+        process.exit(0);
+      }
+
+      if (!json) {
+        const caseInfo = searchOptions.caseSensitive ? 'case-sensitive' : 'case-insensitive';
+        console.log(`\n🔍 Searching ${files.length} .jsonl file(s) for "${query}" (${searchOptions.mode}, ${caseInfo}, in ${searchOptions.fields.join(', ')})`);
+        console.log('─'.repeat(80));
+      }
+
+      const fileResults: Array<{ filePath: string; rounds: RoundSearchResult[] }> = [];
+      let matchCount = 0;
+      let roundCount = 0;
+
+      for (const filePath of files) {
+        const diagnostics: ParseDiagnostic[] = [];
+        const rounds: RoundSearchResult[] = [];
+        try {
+          for await (const round of streamRounds(streamSessionFile(filePath, { strict, repair, diagnostics }), { sidechains, segment })) {
+            const result = searchRound(round, pattern, searchOptions);
+            if (result) {
+              rounds.push(result);
+            }
+          }
+        } catch (error) {
+          console.error(`❌ ${filePath}: ${(error as Error).message}`);
+          continue;
+        }
+
+        if (!json) {
+          printParseDiagnostics(diagnostics, '  ');
+        }
+        if (rounds.length === 0) continue;
+
+        fileResults.push({ filePath, rounds });
+        roundCount += rounds.length;
+        matchCount += rounds.reduce((sum, r) => sum + r.matches.length, 0);
+
+        if (!json) {
+          console.log(`\n📁 ${filePath}`);
+          for (const result of rounds) {
+            printSearchResult(result);
+          }
+        }
+      }
+
+      if (json) {
+        console.log(JSON.stringify({ query, ...searchOptions, matchCount, files: fileResults }, null, 2));
+      } else {
+        console.log('\n' + '─'.repeat(80));
+        console.log(`📊 ${matchCount} match${matchCount === 1 ? '' : 'es'} in ${roundCount} round${roundCount === 1 ? '' : 's'} across ${fileResults.length} file${fileResults.length === 1 ? '' : 's'}\n`);
+      }
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (command === 'validate') {
+    if (args.length < 2) {
+      console.error('❌ Error: File or directory path required');
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const inputPath = args[1];
+    const { recursive, strict, repair } = parseOutputOptions(args.slice(2));
+    const json = args.slice(2).includes('--json');
+
+    try {
+      const stat = await fs.stat(inputPath);
+      const files = stat.isDirectory() ? await scanJsonlDirectory(inputPath, recursive) : [inputPath];
+
+      if (files.length === 0) {
+        console.log(`⚠️  No .jsonl files found in directory`);
+        process.exit(0);
+      }
+
+      if (!json) {
+        console.log(`\n🔍 Validating ${files.length} .jsonl file(s)${recursive ? ' (recursive)' : ''}`);
+        console.log('─'.repeat(80));
+      }
+
+      const reports: ValidationReport[] = [];
+
+      for (const filePath of files) {
+        let report: ValidationReport;
+        try {
+          const diagnostics: ParseDiagnostic[] = [];
+          const entries = await readSessionFile(filePath, { repair, diagnostics });
+          report = validateEntries(entries, filePath, diagnostics);
+        } catch (error) {
+          // Unreadable files fail validation rather than aborting the whole run
+          report = {
+            filePath,
+            entryCount: 0,
+            errorCount: 1,
+            warningCount: 0,
+            issues: [{ severity: 'error', code: 'malformed-line', message: (error as Error).message }],
+          };
+        }
+        reports.push(report);
+
+        if (!json) {
+          const healthy = isHealthy(report, strict);
+          const counts = report.issues.length === 0
+            ? 'healthy'
+            : `${report.errorCount} error${report.errorCount === 1 ? '' : 's'}, ${report.warningCount} warning${report.warningCount === 1 ? '' : 's'}`;
+          console.log(`  ${healthy ? '✅' : '❌'} ${filePath}: ${report.entryCount} entries, ${counts}`);
+          for (const issue of report.issues) {
+            console.log(`     [${issue.severity}] ${issue.code}: ${issue.message}`);
+          }
+        }
+      }
+
+      const healthyCount = reports.filter((r) => isHealthy(r, strict)).length;
+
+      if (json) {
+        console.log(JSON.stringify({ strict, healthyCount, totalFiles: reports.length, reports }, null, 2));
+      } else {
+        console.log('─'.repeat(80));
+        console.log(`\n📊 ${healthyCount}/${reports.length} file${reports.length === 1 ? '' : 's'} healthy${strict ? ' (strict)' : ''}\n`);
+      }
+
+      process.exit(healthyCount === reports.length ? 0 : 1);
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (command === 'diff') {
+    if (args.length < 3) {
+      console.error('❌ Error: Two .jsonl files required');
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const [fileA, fileB] = args.slice(1, 3);
+    const { outputDir, theme, strict, repair, sidechains, segment } = parseOutputOptions(args.slice(3));
+    let threshold = DEFAULT_DIFF_THRESHOLD;
+    for (let i = 3; i < args.length; i++) {
+      if (args[i] === '--threshold' && args[i + 1]) {
+        threshold = Number(args[++i]);
+        if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+          console.error(`❌ Error: --threshold must be a number between 0 and 1: ${args[i]}`);
+          process.exit(1);
+        }
+      }
+    }
+
+    try {
+      const pricing = await loadPricing(args.slice(2));
+      const readRounds = async (filePath: string): Promise<Round[]> => {
+        const diagnostics: ParseDiagnostic[] = [];
+        const rounds = await readSessionRounds(filePath, { strict, repair, diagnostics }, { sidechains, segment, pricing });
+        printParseDiagnostics(diagnostics);
+        return rounds;
+      };
+      const roundsA = await readRounds(fileA);
+      const roundsB = await readRounds(fileB);
+
+      console.log(`\n🔀 Comparing ${fileA} (${roundsA.length} rounds) with ${fileB} (${roundsB.length} rounds)`);
+      console.log('─'.repeat(80));
+
+      const diff = diffTrajectories(roundsA, roundsB, fileA, fileB, { threshold });
+      printTrajectoryDiff(diff);
+
+      console.log('\n' + '─'.repeat(80));
+      console.log(`📊 Rounds: ${formatDiffCounts(diff.roundCounts)}`);
+      console.log(`🔧 Steps: ${formatDiffCounts(diff.stepCounts)}`);
+
+      await ensureDir(outputDir);
+      const htmlPath = path.join(outputDir, getDiffHtmlFilename(fileA, fileB));
+      await fs.writeFile(htmlPath, renderDiffToHtml(diff, { theme }), 'utf-8');
+      console.log(`\n✅ Side-by-side HTML: ${htmlPath}\n`);
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (command === 'stitch') {
+    if (args.length < 2) {
+      console.error('❌ Error: File path required');
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const filePath = args[1];
+    const { outputDir, render, normalize, theme, strict, repair, sidechains, segment } = parseExtractOptions(args.slice(2));
+
+    try {
+      const diagnostics: ParseDiagnostic[] = [];
+      const session = await stitchSessions(filePath, { strict, repair, diagnostics });
+      const rounds = extractStitchedRounds(session, { sidechains, segment, normalize, pricing: await loadPricing(args.slice(2)) });
+
+      console.log(`\n🧵 Stitched ${session.files.length} session file${session.files.length === 1 ? '' : 's'} from ${path.dirname(filePath)}`);
+      console.log('─'.repeat(80));
+      for (const file of session.files) {
+        const fileRounds = rounds.filter((round) => round.entries[0]?.source?.file === file);
+        const link = session.links.find((l) => l.to === file);
+        const via = link ? ` ← ${path.basename(link.from)} (${link.kind})` : '';
+        console.log(`  📄 ${path.basename(file)}: ${fileRounds.length} round${fileRounds.length === 1 ? '' : 's'}${via}`);
+      }
+      printParseDiagnostics(diagnostics);
+
+      await ensureDir(outputDir);
+      const basename = path.basename(filePath, '.jsonl');
+      const outputPath = path.join(outputDir, `${basename}.stitched.json`);
+      await fs.writeFile(outputPath, JSON.stringify(rounds, null, 2), 'utf-8');
+      console.log(`\n✅ Wrote ${rounds.length} rounds to: ${outputPath}`);
+
+      if (render) {
+        const htmlOutputDir = path.join(outputDir, 'html');
+        await ensureDir(htmlOutputDir);
+        const htmlPath = path.join(htmlOutputDir, `${basename}.stitched.html`);
+        await fs.writeFile(htmlPath, renderFileToHtml(rounds, outputPath, { theme }), 'utf-8');
+        console.log(`✅ Rendered to: ${htmlPath}`);
+      }
+      console.log('');
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (command === 'replay') {
+    if (args.length < 2) {
+      console.error('❌ Error: File path required');
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const filePath = args[1];
+    const { strict, repair, segment } = parseOutputOptions(args.slice(2));
+    const json = args.slice(2).includes('--json');
+    let outputDir = path.join('./output', `${path.basename(filePath, '.jsonl')}-workspace`);
+    let baseDir: string | undefined;
+    let fileHistoryDir: string | undefined;
+    let untilRound: number | undefined;
+    let untilUuid: string | undefined;
+    for (let i = 2; i < args.length; i++) {
+      const value = args[i + 1];
+      if ((args[i] === '-o' || args[i] === '--output') && value) {
+        outputDir = value;
+        i++;
+      } else if (args[i] === '--from' && value) {
+        baseDir = value;
+        i++;
+      } else if (args[i] === '--file-history' && value) {
+        fileHistoryDir = value;
+        i++;
+      } else if ((args[i] === '-r' || args[i] === '--round') && value) {
+        untilRound = parseInt(value, 10);
+        if (isNaN(untilRound) || untilRound < 0) {
+          console.error(`❌ Error: --round must be a round number: ${value}`);
+          process.exit(1);
+        }
+        i++;
+      } else if (args[i] === '--entry' && value) {
+        untilUuid = value;
+        i++;
+      }
+    }
+
+    try {
+      const diagnostics: ParseDiagnostic[] = [];
+      // Subagents edit files too, so their entries are replayed in file order
+      const rounds = await readSessionRounds(filePath, { strict, repair, diagnostics }, { sidechains: 'inline', segment });
+      if (untilRound !== undefined && !rounds.some((round) => round.roundNumber === untilRound)) {
+        console.error(`❌ Error: Round ${untilRound} not found (available: ${rounds.map((r) => r.roundNumber).join(', ')})`);
+        process.exit(1);
+      }
+
+      const result = await replayWorkspace(rounds, { baseDir, fileHistoryDir, untilRound, untilUuid });
+      await ensureDir(outputDir);
+      const written = await writeWorkspace(result, outputDir, baseDir);
+
+      if (json) {
+        const { root, applied, failed, conflicts, stoppedAt } = result;
+        console.log(JSON.stringify({ root, applied, failed, stoppedAt, outputDir, files: written, conflicts }, null, 2));
+        process.exit(0);
+      }
+
+      const stop = result.stoppedAt
+        ? ` as of ${result.stoppedAt.uuid ? `entry ${result.stoppedAt.uuid} (round #${result.stoppedAt.roundNumber})` : `round #${result.stoppedAt.roundNumber}`}`
+        : '';
+      console.log(`\n🗂️  Replayed ${result.applied} edit${result.applied === 1 ? '' : 's'} from ${filePath}${stop}`);
+      if (result.root) {
+        console.log(`   Working directory: ${result.root}`);
+      }
+      console.log('─'.repeat(80));
+      for (const file of written) {
+        console.log(`  📝 ${file}`);
+      }
+      if (result.failed > 0) {
+        console.log(`\n  ⏭️  Skipped ${result.failed} tool call${result.failed === 1 ? '' : 's'} that failed in the session`);
+      }
+      if (result.conflicts.length > 0) {
+        console.log(`\n⚠️  ${result.conflicts.length} edit${result.conflicts.length === 1 ? '' : 's'} could not be applied:`);
+        for (const conflict of result.conflicts) {
+          const oldString = conflict.oldString !== undefined ? `: ${JSON.stringify(conflict.oldString.length > 60 ? `${conflict.oldString.substring(0, 60)}...` : conflict.oldString)}` : '';
+          console.log(`  Round #${conflict.roundNumber} ${conflict.tool} ${conflict.filePath} [${conflict.reason}]${oldString}`);
+        }
+        if (!baseDir && result.conflicts.some((conflict) => conflict.reason === 'unknown-file')) {
+          console.log('  💡 Pass --from <checkout> so files that existed before the session can be edited');
+        }
+      }
+      printParseDiagnostics(diagnostics);
+      console.log(`\n✅ Workspace written to: ${outputDir}\n`);
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (command === 'commands') {
+    if (args.length < 2) {
+      console.error('❌ Error: File path required');
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const filePath = args[1];
+    const { strict, repair, sidechains, segment } = parseOutputOptions(args.slice(2));
+    let format: CommandFormat = 'text';
+    let outputFile: string | null = null;
+    let maxOutput = DEFAULT_MAX_OUTPUT;
+    for (let i = 2; i < args.length; i++) {
+      const value = args[i + 1];
+      if (args[i] === '-f' || args[i] === '--format') {
+        if (!COMMAND_FORMATS.includes(value as CommandFormat)) {
+          console.error(`❌ Error: --format must be one of: ${COMMAND_FORMATS.join(', ')}`);
+          process.exit(1);
+        }
+        format = value as CommandFormat;
+        i++;
+      } else if ((args[i] === '-o' || args[i] === '--output') && value) {
+        outputFile = value;
+        i++;
+      } else if (args[i] === '--max-output') {
+        maxOutput = parseInt(value, 10);
+        if (isNaN(maxOutput) || maxOutput < 0) {
+          console.error(`❌ Error: --max-output must be a number of characters: ${value}`);
+          process.exit(1);
+        }
+        i++;
+      }
+    }
+
+    try {
+      const diagnostics: ParseDiagnostic[] = [];
+      const rounds = await readSessionRounds(filePath, { strict, repair, diagnostics }, { sidechains, segment });
+      const output = formatCommands(extractBashCommands(rounds, { maxOutput }), filePath, format);
+
+      if (outputFile) {
+        await ensureDir(path.dirname(outputFile));
+        await fs.writeFile(outputFile, output, { encoding: 'utf-8', mode: format === 'sh' ? 0o755 : 0o644 });
+        console.log(`✅ Commands written to: ${outputFile}`);
+      } else {
+        console.log(output);
+      }
+      printParseDiagnostics(diagnostics);
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (command === 'todos') {
+    if (args.length < 2) {
+      console.error('❌ Error: File path required');
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const filePath = args[1];
+    const { strict, repair, segment } = parseOutputOptions(args.slice(2));
+    const json = args.slice(2).includes('--json');
+
+    try {
+      const diagnostics: ParseDiagnostic[] = [];
+      const rounds = await readSessionRounds(filePath, { strict, repair, diagnostics }, { segment });
+      const timeline = buildTodoTimeline(rounds);
+
+      if (json) {
+        console.log(JSON.stringify(timeline, null, 2));
+        printParseDiagnostics(diagnostics);
+        process.exit(0);
+      }
+
+      if (timeline.events.length === 0) {
+        console.log(`\n📋 No todo list in ${filePath}\n`);
+        printParseDiagnostics(diagnostics);
+        process.exit(0);
+      }
+
+      console.log(`\n📋 Todo timeline of ${filePath}`);
+      console.log(`   ${timeline.created} created, ${timeline.completed} completed, ${timeline.dropped} dropped`);
+      console.log('─'.repeat(80));
+      printTodoTimeline(rounds, timeline);
+      printParseDiagnostics(diagnostics);
+      console.log('');
+    } catch (error) {
+      console.error(`❌ Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
   } else {
     console.error(`❌ Unknown command: ${command}`);
     console.log(USAGE);
@@ -0,0 +1,201 @@
+// Markdown transcript renderer for Claude Code rounds
+import type { Round, ClaudeRawEntry, RoundEntry, RoundUsage, SidechainTrajectory, ToolCall } from '../shared/round-types.ts';
+import * as path from 'node:path';
+import { mergeMessageChunks } from '../shared/round-extractor.ts';
+import { formatLatency, toolResultText } from '../shared/tool-calls.ts';
+import { formatCost, formatTokenCount, sumUsage, totalTokens } from '../shared/usage.ts';
+
+// Lookups shared by all entries of a round: nested subagent runs and paired tool calls
+interface RenderContext {
+  sidechainsByToolUseId: Map<string, SidechainTrajectory[]>;
+  toolCallsById: Map<string, ToolCall>;
+  headingLevel: number; // Level of the per-message headings (deeper inside subagent runs)
+}
+
+/**
+ * Wrap text in a code fence longer than any backtick run inside it
+ */
+function fence(text: string, language = ''): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const ticks = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${ticks}${language}\n${text}\n${ticks}`;
+}
+
+function blockquote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+/**
+ * Collapsible section; the blank lines let Markdown inside the body render on GitHub
+ */
+function details(summary: string, body: string): string {
+  return `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`;
+}
+
+function escapeSummary(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function formatUsageLine(usage: RoundUsage | undefined): string {
+  if (!usage || totalTokens(usage) === 0) {
+    return '';
+  }
+  const cost = usage.estimatedCost !== null ? ` · 💰 ~${formatCost(usage.estimatedCost)}` : '';
+  return ` · 🪙 ${formatTokenCount(totalTokens(usage))} tokens${cost}`;
+}
+
+function getBlocks(entry: ClaudeRawEntry): Array<Record<string, unknown>> {
+  const content = entry.message?.content;
+  if (typeof content === 'string') {
+    return content.trim() ? [{ type: 'text', text: content }] : [];
+  }
+  return Array.isArray(content) ? (content as Array<Record<string, unknown>>) : [];
+}
+
+function renderSidechain(sidechain: SidechainTrajectory, headingLevel: number): string {
+  const context: RenderContext = {
+    sidechainsByToolUseId: new Map(),
+    toolCallsById: new Map((sidechain.toolCalls ?? []).map((call) => [call.id, call])),
+    headingLevel,
+  };
+  const title = escapeSummary(sidechain.description || sidechain.summary);
+  const type = sidechain.subagentType ? ` (${escapeSummary(sidechain.subagentType)})` : '';
+  return details(`🧵 Subagent: ${title}${type}`, renderEntries(sidechain.entries, context));
+}
+
+function renderBlock(block: Record<string, unknown>, role: string, context: RenderContext): string[] {
+  switch (block.type) {
+    case 'text': {
+      const text = typeof block.text === 'string' ? block.text.trim() : '';
+      if (!text) return [];
+      return [role === 'user' ? blockquote(text) : text];
+    }
+    case 'image':
+      return ['*[image]*'];
+    case 'thinking': {
+      // Support both old format (text) and new format (thinking field)
+      const thinking = ((block.thinking as string) || (block.text as string) || '').trim();
+      return thinking ? [details('💭 Thinking', thinking)] : [];
+    }
+    case 'redacted_thinking':
+      return ['*💭 Thinking (redacted)*'];
+    case 'tool_use': {
+      const call = context.toolCallsById.get(block.id as string);
+      const status = call?.status === 'unanswered' ? ' ⏳ *no result*' : '';
+      const parts = [`**🔧 ${String(block.name ?? 'unknown')}**${status}`, fence(JSON.stringify(block.input ?? {}, null, 2), 'json')];
+      for (const sidechain of context.sidechainsByToolUseId.get(block.id as string) ?? []) {
+        parts.push(renderSidechain(sidechain, context.headingLevel + 1));
+      }
+      return parts;
+    }
+    case 'tool_result': {
+      const call = context.toolCallsById.get(block.tool_use_id as string);
+      const info = [call?.name, call?.latencyMs != null ? formatLatency(call.latencyMs) : null].filter(Boolean).join(', ');
+      const orphaned = call?.status === 'orphaned' ? ' ⚠️ *no matching tool use*' : '';
+      const label = `**${block.is_error ? '❌ Error' : '✅ Result'}**${info ? ` (${info})` : ''}${orphaned}`;
+      return [label, fence(call?.output ?? toolResultText(block.content))];
+    }
+    default:
+      return [`*[${String(block.type)}]*`];
+  }
+}
+
+/**
+ * Render entries as a transcript. A heading is written whenever the speaker changes;
+ * tool results belong to the assistant's turn, so they do not start a user section.
+ */
+function renderEntries(roundEntries: RoundEntry[], context: RenderContext): string {
+  const entries = mergeMessageChunks(roundEntries.map((entry) => JSON.parse(entry.rawContent) as ClaudeRawEntry));
+  const heading = '#'.repeat(context.headingLevel);
+  const sections: string[] = [];
+  let speaker: string | null = null;
+
+  for (const entry of entries) {
+    if (entry.isMeta) continue;
+    const blocks = getBlocks(entry);
+
+    if (entry.type === 'system') {
+      const text = blocks.filter((b) => b.type === 'text').map((b) => b.text as string).join('\n').trim();
+      if (text) {
+        sections.push(details('⚙️ System', text));
+      }
+      continue;
+    }
+    if (entry.type !== 'user' && entry.type !== 'assistant') continue;
+
+    const parts = blocks.flatMap((block) => renderBlock(block, entry.type, context));
+    if (parts.length === 0) continue;
+
+    const onlyToolResults = blocks.every((block) => block.type === 'tool_result');
+    const entrySpeaker = entry.type === 'user' && !onlyToolResults ? 'user' : 'assistant';
+    if (entrySpeaker !== speaker) {
+      sections.push(entrySpeaker === 'user' ? `${heading} 👤 User` : `${heading} 🤖 Assistant`);
+      speaker = entrySpeaker;
+    }
+    sections.push(...parts);
+  }
+
+  return sections.join('\n\n');
+}
+
+function renderRoundBody(round: Round, headingLevel: number): string {
+  const sidechains = round.sidechains ?? [];
+  const sidechainsByToolUseId = new Map<string, SidechainTrajectory[]>();
+  for (const sidechain of sidechains) {
+    if (sidechain.toolUseId) {
+      sidechainsByToolUseId.set(sidechain.toolUseId, [...(sidechainsByToolUseId.get(sidechain.toolUseId) ?? []), sidechain]);
+    }
+  }
+
+  // Rounds loaded from older JSON exports have no toolCalls
+  const context: RenderContext = {
+    sidechainsByToolUseId,
+    toolCallsById: new Map((round.toolCalls ?? []).map((call) => [call.id, call])),
+    headingLevel,
+  };
+  const sections = [renderEntries(round.entries, context)];
+
+  // Subagent runs that could not be matched to a Task, or continue a Task of an earlier round, go at the end
+  const unmatched = sidechains.filter((s) => !s.toolUseId || (round.toolCalls && !context.toolCallsById.has(s.toolUseId)));
+  for (const sidechain of unmatched) {
+    sections.push(renderSidechain(sidechain, headingLevel + 1));
+  }
+  return sections.filter((section) => section).join('\n\n');
+}
+
+function renderRoundMeta(round: Round): string {
+  return `*📦 ${round.entries.length} entries · 🕐 ${round.startTimestamp} – ${round.endTimestamp}${formatUsageLine(round.usage)}*`;
+}
+
+/**
+ * Generate a Markdown transcript of a single round
+ */
+export function renderRoundToMarkdown(round: Round, sourceFile?: string): string {
+  const fileBasename = sourceFile ? path.basename(sourceFile, '.jsonl') : 'Unknown';
+  return [`# ${fileBasename} - Round #${round.roundNumber}`, renderRoundMeta(round), renderRoundBody(round, 2)].join('\n\n') + '\n';
+}
+
+/**
+ * Generate a Markdown transcript of all rounds in a file
+ */
+export function renderFileToMarkdown(rounds: Round[], sourceFile: string): string {
+  const fileBasename = path.basename(sourceFile, '.jsonl');
+  const usage = sumUsage(rounds.flatMap((round) => (round.usage ? [round.usage] : [])));
+  const sections = [`# ${fileBasename}`, `*${rounds.length} round${rounds.length === 1 ? '' : 's'}${formatUsageLine(usage)}*`];
+
+  for (const round of rounds) {
+    sections.push(`## Round #${round.roundNumber}`, renderRoundMeta(round), renderRoundBody(round, 3));
+  }
+  return sections.filter((section) => section).join('\n\n') + '\n';
+}
+
+/**
+ * Generate Markdown filename for a round
+ */
+export function getMarkdownFilename(sourceFile: string, roundId: number): string {
+  const basename = path.basename(sourceFile, '.jsonl');
+  return `${basename}-${roundId}.md`;
+}
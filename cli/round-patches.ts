@@ -0,0 +1,309 @@
+// Unified diffs of the files each round changed through Edit, MultiEdit and Write
+import type { ClaudeRawEntry, Round } from '../shared/round-types.ts';
+import { applyStringEdits, getFileToolUses, getStringEdits, toWorkspacePath } from './workspace-replay.ts';
+
+export interface FilePatch {
+  path: string; // Relative to the session's working directory (see toWorkspacePath)
+  patch: string; // Unified diff with ---/+++ headers
+  added: number;
+  removed: number;
+  // false when the file's content was never seen: hunks then only cover the edited strings
+  // and their line numbers come from Claude Code's own patch, or start at 1
+  exact: boolean;
+}
+
+export interface RoundPatch {
+  roundNumber: number;
+  files: FilePatch[];
+}
+
+type DiffOp = [' ' | '-' | '+', string]; // Lines keep their trailing newline
+
+// Claude Code's record of an edit, stored on the entry that carries the tool_result
+interface ToolUseResult {
+  type?: string; // Write: "create" or "update"
+  originalFile?: string;
+  structuredPatch?: Array<{ oldStart: number; oldLines: number; newStart: number; newLines: number; lines: string[] }>;
+}
+
+// What a round did to one file
+interface FileChange {
+  before: string | null; // null: content unknown, only fragments are available
+  after: string | null;
+  fragments: string[]; // Hunks of edits to files with unknown content
+  fragmentAdded: number;
+  fragmentRemoved: number;
+}
+
+const CONTEXT_LINES = 3;
+
+// Larger differences are shown as a whole replacement instead of a line-by-line diff
+const MAX_DIFF_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Line diff: common prefix and suffix are trimmed, the rest is aligned by longest common subsequence
+ */
+function diffLines(before: string, after: string): DiffOp[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line): DiffOp => [' ', line]);
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    ops.push(...midA.map((line): DiffOp => ['-', line]), ...midB.map((line): DiffOp => ['+', line]));
+  } else {
+    // lcs[i][j]: length of the longest common subsequence of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push([' ', midA[i++]]);
+        j++;
+      } else if (j >= midB.length || (i < midA.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+        ops.push(['-', midA[i++]]);
+      } else {
+        ops.push(['+', midB[j++]]);
+      }
+    }
+  }
+  ops.push(...a.slice(endA).map((line): DiffOp => [' ', line]));
+  return ops;
+}
+
+/**
+ * A diff line. A line without a newline is the end of the file only in exact diffs;
+ * in fragments it is just where the edited string stops.
+ */
+function formatLine(prefix: string, line: string, exact: boolean): string {
+  if (line.endsWith('\n')) {
+    return `${prefix}${line}`;
+  }
+  return exact ? `${prefix}${line}\n\\ No newline at end of file\n` : `${prefix}${line}\n`;
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Group diff operations into unified hunks with `context` unchanged lines around each change.
+ * `exact` is false for fragments, whose line numbers start at 1 (see FilePatch).
+ */
+function formatHunks(ops: DiffOp[], context: number, exact: boolean): string {
+  const hunks: string[] = [];
+  const changed = ops.map((op, i) => (op[0] === ' ' ? -1 : i)).filter((i) => i !== -1);
+  let k = 0;
+  while (k < changed.length) {
+    // Changes closer than twice the context share a hunk
+    let last = k;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= 2 * context + 1) last++;
+    const from = Math.max(0, changed[k] - context);
+    const to = Math.min(ops.length, changed[last] + context + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (const [type] of ops.slice(0, from)) {
+      if (type !== '+') oldLine++;
+      if (type !== '-') newLine++;
+    }
+    const lines = ops.slice(from, to);
+    const oldCount = lines.filter(([type]) => type !== '+').length;
+    const newCount = lines.filter(([type]) => type !== '-').length;
+    hunks.push(
+      `@@ -${formatRange(oldCount === 0 ? oldLine - 1 : oldLine, oldCount)} +${formatRange(newCount === 0 ? newLine - 1 : newLine, newCount)} @@\n` +
+        lines.map(([type, line]) => formatLine(type, line, exact)).join('')
+    );
+    k = last + 1;
+  }
+  return hunks.join('');
+}
+
+function countOps(ops: DiffOp[], type: '-' | '+'): number {
+  return ops.filter((op) => op[0] === type).length;
+}
+
+function getToolResults(entries: ClaudeRawEntry[]): Map<string, { isError: boolean; toolUseResult: ToolUseResult | null }> {
+  const results = new Map<string, { isError: boolean; toolUseResult: ToolUseResult | null }>();
+  for (const entry of entries) {
+    const content = entry.message?.content;
+    if (entry.type !== 'user' || !Array.isArray(content)) continue;
+    const toolUseResult = typeof entry.toolUseResult === 'object' && entry.toolUseResult !== null ? (entry.toolUseResult as ToolUseResult) : null;
+    for (const item of content as Array<Record<string, unknown>>) {
+      if (item.type === 'tool_result' && typeof item.tool_use_id === 'string') {
+        results.set(item.tool_use_id, { isError: item.is_error === true, toolUseResult });
+      }
+    }
+  }
+  return results;
+}
+
+function formatFilePatch(path: string, before: string, after: string): FilePatch | null {
+  if (before === after) {
+    return null;
+  }
+  const ops = diffLines(before, after);
+  const header = `--- ${before === '' ? '/dev/null' : `a/${path}`}\n+++ b/${path}\n`;
+  return { path, patch: header + formatHunks(ops, CONTEXT_LINES, true), added: countOps(ops, '+'), removed: countOps(ops, '-'), exact: true };
+}
+
+/**
+ * Track file contents across the rounds of a session and turn each round's edits into
+ * unified diffs. Rounds must be added in order; file contents carry over between rounds.
+ * Contents become known through Write calls and through the original file Claude Code
+ * records with each edit; edits to files that stay unknown become fragment hunks.
+ */
+export function createPatchTracker() {
+  const files = new Map<string, string>(); // Absolute path → current content
+  const initial = new Map<string, string>(); // Absolute path → content before the first change
+  const fragments = new Map<string, Omit<FilePatch, 'path' | 'patch' | 'exact'> & { hunks: string[] }>();
+  let root: string | null = null;
+
+  const addRound = (round: Round): RoundPatch => {
+    // Subagents edit files too; their runs are merged back in by time
+    const roundEntries = [...round.entries, ...(round.sidechains ?? []).flatMap((sidechain) => sidechain.entries)];
+    roundEntries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const entries = roundEntries.map((entry) => JSON.parse(entry.rawContent) as ClaudeRawEntry);
+    const results = getToolResults(entries);
+    const changes = new Map<string, FileChange>();
+
+    for (const entry of entries) {
+      if (!root && typeof entry.cwd === 'string') {
+        root = entry.cwd;
+      }
+      for (const toolUse of getFileToolUses(entry)) {
+        const name = toolUse.name as string;
+        const input = (toolUse.input ?? {}) as Record<string, unknown>;
+        const result = results.get(String(toolUse.id));
+        if (typeof input.file_path !== 'string' || result?.isError) continue;
+
+        const filePath = input.file_path;
+        let change = changes.get(filePath);
+        if (!change) {
+          const known = files.get(filePath) ?? null;
+          change = { before: known, after: known, fragments: [], fragmentAdded: 0, fragmentRemoved: 0 };
+          changes.set(filePath, change);
+        }
+        const original = result?.toolUseResult?.originalFile;
+        if (change.after === null && change.fragments.length === 0 && typeof original === 'string') {
+          change.before = change.after = original;
+        }
+
+        if (name === 'Write') {
+          if (change.after === null && change.fragments.length === 0) {
+            change.before = '';
+          }
+          change.after = typeof input.content === 'string' ? input.content : '';
+          continue;
+        }
+
+        const edits = getStringEdits(name, input);
+        if (change.after !== null || (change.fragments.length === 0 && edits[0]?.old_string === '')) {
+          const applied = applyStringEdits(change.after, edits);
+          if ('content' in applied) {
+            if (change.before === null) change.before = '';
+            change.after = applied.content;
+          }
+          continue;
+        }
+
+        // Unknown content: use Claude Code's hunks when recorded, else diff the strings themselves
+        const structuredPatch = result?.toolUseResult?.structuredPatch;
+        if (Array.isArray(structuredPatch) && structuredPatch.length > 0) {
+          for (const hunk of structuredPatch) {
+            change.fragments.push(
+              `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@\n` + hunk.lines.map((line) => `${line}\n`).join('')
+            );
+            change.fragmentAdded += hunk.lines.filter((line) => line.startsWith('+')).length;
+            change.fragmentRemoved += hunk.lines.filter((line) => line.startsWith('-')).length;
+          }
+        } else {
+          for (const edit of edits) {
+            const ops = diffLines(edit.old_string, edit.new_string);
+            change.fragments.push(formatHunks(ops, Infinity, false));
+            change.fragmentAdded += countOps(ops, '+');
+            change.fragmentRemoved += countOps(ops, '-');
+          }
+        }
+      }
+    }
+
+    const patches: FilePatch[] = [];
+    for (const [filePath, change] of changes) {
+      const path = toWorkspacePath(filePath, root);
+      if (change.fragments.length > 0 || change.before === null || change.after === null) {
+        if (change.fragments.length === 0) continue;
+        if (change.after !== null) {
+          files.set(filePath, change.after); // Written after the fragment edits
+        }
+        const patch = { path, patch: `--- a/${path}\n+++ b/${path}\n${change.fragments.join('')}`, added: change.fragmentAdded, removed: change.fragmentRemoved, exact: false };
+        patches.push(patch);
+        const previous = fragments.get(filePath) ?? { hunks: [], added: 0, removed: 0 };
+        fragments.set(filePath, { hunks: [...previous.hunks, ...change.fragments], added: previous.added + patch.added, removed: previous.removed + patch.removed });
+        continue;
+      }
+      if (!initial.has(filePath)) {
+        initial.set(filePath, change.before);
+      }
+      files.set(filePath, change.after);
+      const patch = formatFilePatch(path, change.before, change.after);
+      if (patch) {
+        patches.push(patch);
+      }
+    }
+    return { roundNumber: round.roundNumber, files: patches.sort((a, b) => a.path.localeCompare(b.path)) };
+  };
+
+  return {
+    addRound,
+    /**
+     * Changes of all rounds added so far, one diff per file from its first known content
+     */
+    combined(): FilePatch[] {
+      const patches: FilePatch[] = [];
+      for (const [filePath, before] of initial) {
+        const patch = formatFilePatch(toWorkspacePath(filePath, root), before, files.get(filePath)!);
+        if (patch) patches.push(patch);
+      }
+      for (const [filePath, fragment] of fragments) {
+        if (initial.has(filePath)) continue;
+        const path = toWorkspacePath(filePath, root);
+        patches.push({ path, patch: `--- a/${path}\n+++ b/${path}\n${fragment.hunks.join('')}`, added: fragment.added, removed: fragment.removed, exact: false });
+      }
+      return patches.sort((a, b) => a.path.localeCompare(b.path));
+    },
+  };
+}
+
+/**
+ * Unified diffs of every round, in round order
+ */
+export function extractRoundPatches(rounds: Round[]): RoundPatch[] {
+  const tracker = createPatchTracker();
+  return rounds.map((round) => tracker.addRound(round));
+}
+
+/**
+ * Join file patches into one .patch file
+ */
+export function formatPatch(files: FilePatch[]): string {
+  return files.map((file) => file.patch).join('');
+}
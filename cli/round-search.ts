@@ -0,0 +1,201 @@
+// Full-content search over the rounds of a session
+import type { ClaudeRawEntry, Round, RoundEntry, ToolCall } from '../shared/round-types.ts';
+
+export type SearchMode = 'substring' | 'regex' | 'exact';
+
+export type SearchField = 'user' | 'assistant' | 'tool';
+
+export const SEARCH_FIELDS: SearchField[] = ['user', 'assistant', 'tool'];
+
+export interface SearchOptions {
+  mode: SearchMode;
+  caseSensitive: boolean;
+  fields: SearchField[];
+}
+
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface SearchMatch {
+  field: SearchField;
+  label: string; // Where the match was found, e.g. "user", "assistant", "Bash input.command"
+  uuid: string | null;
+  snippet: SearchSnippet;
+}
+
+export interface RoundSearchResult {
+  roundNumber: number;
+  summary: string;
+  matches: SearchMatch[];
+}
+
+// A piece of round text that can be searched
+interface SearchableText {
+  field: SearchField;
+  label: string;
+  uuid: string | null;
+  text: string;
+}
+
+const SNIPPET_CONTEXT = 40;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a query into a global RegExp.
+ * substring: the query anywhere; exact: the query as a whole word or phrase
+ * (not inside a longer word); regex: the query is a JavaScript regular expression.
+ * Throws an Error for an invalid regular expression or an empty query.
+ */
+export function compileQuery(query: string, options: Pick<SearchOptions, 'mode' | 'caseSensitive'>): RegExp {
+  if (query === '') {
+    throw new Error('Search query must not be empty');
+  }
+  const flags = options.caseSensitive ? 'g' : 'gi';
+
+  if (options.mode === 'regex') {
+    return new RegExp(query, flags);
+  }
+  if (options.mode === 'exact') {
+    return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(query)}(?![\\p{L}\\p{N}_])`, `${flags}u`);
+  }
+  return new RegExp(escapeRegExp(query), flags);
+}
+
+/**
+ * Parse a --in value such as "user,tool"
+ */
+export function parseSearchFields(value: string): SearchField[] | null {
+  const fields = value.split(',').map((field) => field.trim()).filter((field) => field !== '');
+  if (fields.length === 0 || !fields.every((field) => (SEARCH_FIELDS as string[]).includes(field))) {
+    return null;
+  }
+  return [...new Set(fields)] as SearchField[];
+}
+
+function parseEntry(entry: RoundEntry): ClaudeRawEntry | null {
+  try {
+    return JSON.parse(entry.rawContent) as ClaudeRawEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect the user and assistant text of entries (tool blocks are covered by tool calls)
+ */
+function collectMessageText(entries: RoundEntry[], texts: SearchableText[]): void {
+  for (const roundEntry of entries) {
+    if (roundEntry.type !== 'user' && roundEntry.type !== 'assistant') continue;
+    const entry = parseEntry(roundEntry);
+    const content = entry?.message?.content;
+    const field: SearchField = roundEntry.type;
+    const push = (text: string, label: string = field) => {
+      if (text) texts.push({ field, label, uuid: roundEntry.uuid, text });
+    };
+
+    if (typeof content === 'string') {
+      push(content);
+    } else if (Array.isArray(content)) {
+      for (const item of content as Array<Record<string, unknown>>) {
+        if (item.type === 'text' && typeof item.text === 'string') {
+          push(item.text);
+        } else if (item.type === 'thinking' && typeof item.thinking === 'string') {
+          push(item.thinking, 'thinking');
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Collect the values of a tool input as they were written (not JSON-escaped),
+ * labelled with their key path, e.g. "Bash input.command", "MultiEdit input.edits[0].new_string"
+ */
+function collectInputText(value: unknown, label: string, uuid: string | null, texts: SearchableText[]): void {
+  if (typeof value === 'string') {
+    if (value) texts.push({ field: 'tool', label, uuid, text: value });
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    texts.push({ field: 'tool', label, uuid, text: String(value) });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectInputText(item, `${label}[${index}]`, uuid, texts));
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, item] of Object.entries(value)) {
+      collectInputText(item, `${label}.${key}`, uuid, texts);
+    }
+  }
+}
+
+function collectToolText(toolCalls: ToolCall[], texts: SearchableText[]): void {
+  for (const call of toolCalls) {
+    const name = call.name ?? 'tool';
+    collectInputText(call.input, `${name} input`, call.toolUseUuid, texts);
+    if (call.output) {
+      texts.push({ field: 'tool', label: `${name} output`, uuid: call.toolResultUuid, text: call.output });
+    }
+  }
+}
+
+/**
+ * Everything searchable in a round, including its subagent runs
+ */
+function collectRoundText(round: Round): SearchableText[] {
+  const texts: SearchableText[] = [];
+  collectMessageText(round.entries, texts);
+  collectToolText(round.toolCalls ?? [], texts);
+  for (const sidechain of round.sidechains ?? []) {
+    collectMessageText(sidechain.entries, texts);
+    collectToolText(sidechain.toolCalls ?? [], texts);
+  }
+  return texts;
+}
+
+function toSnippet(text: string, start: number, end: number): SearchSnippet {
+  const flatten = (value: string) => value.replace(/\s+/g, ' ');
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  return {
+    before: (from > 0 ? '...' : '') + flatten(text.substring(from, start)),
+    match: flatten(text.substring(start, end)),
+    after: flatten(text.substring(end, to)) + (to < text.length ? '...' : ''),
+  };
+}
+
+/**
+ * Search user text, assistant text, tool inputs and tool outputs of a round.
+ * Returns null if nothing matched.
+ */
+export function searchRound(round: Round, pattern: RegExp, options: Pick<SearchOptions, 'fields'>): RoundSearchResult | null {
+  const matches: SearchMatch[] = [];
+
+  for (const searchable of collectRoundText(round)) {
+    if (!options.fields.includes(searchable.field)) continue;
+
+    for (const found of searchable.text.matchAll(pattern)) {
+      // Empty regex matches (e.g. "a*") carry no information
+      if (found[0] === '') continue;
+      matches.push({
+        field: searchable.field,
+        label: searchable.label,
+        uuid: searchable.uuid,
+        snippet: toSnippet(searchable.text, found.index!, found.index! + found[0].length),
+      });
+    }
+  }
+
+  return matches.length > 0 ? { roundNumber: round.roundNumber, summary: round.summary, matches } : null;
+}
+
+/**
+ * Format a snippet for the terminal, highlighting the match in bold yellow
+ * (or with «» markers when the output is not a terminal)
+ */
+export function formatSnippet(snippet: SearchSnippet, color: boolean): string {
+  const match = color ? `\x1b[1;33m${snippet.match}\x1b[0m` : `«${snippet.match}»`;
+  return `${snippet.before}${match}${snippet.after}`;
+}
@@ -0,0 +1,79 @@
+// Round selection: index expressions, time windows and first/last N
+import type { Round } from '../shared/round-types.ts';
+
+/**
+ * Inclusive range of round numbers. Negative numbers count from the end (-1 is the last round).
+ */
+export interface RoundIndexRange {
+  from: number;
+  to: number;
+}
+
+export interface RoundSelection {
+  ranges?: RoundIndexRange[]; // From -r, e.g. "3-7,10,-1"
+  since?: number; // Epoch ms; rounds starting before are dropped
+  until?: number; // Epoch ms; rounds starting after are dropped
+  first?: number; // Keep the first N rounds left after the other selectors
+  last?: number; // Keep the last N rounds left after the other selectors
+}
+
+/**
+ * Parse a round expression: comma-separated numbers and ranges, where negative numbers
+ * count from the end. E.g. "3-7,10,-1", "-3--1" (last three) or "5--1" (5 to the end).
+ * Returns null if the expression is invalid.
+ */
+export function parseRoundExpression(expression: string): RoundIndexRange[] | null {
+  const ranges: RoundIndexRange[] = [];
+  for (const part of expression.split(',')) {
+    const match = part.trim().match(/^(-?\d+)(?:-(-?\d+))?$/);
+    if (!match) {
+      return null;
+    }
+    const from = parseInt(match[1], 10);
+    const to = match[2] !== undefined ? parseInt(match[2], 10) : from;
+    ranges.push({ from, to });
+  }
+  return ranges;
+}
+
+export function hasRoundSelection(selection: RoundSelection): boolean {
+  return (
+    selection.ranges !== undefined ||
+    selection.since !== undefined ||
+    selection.until !== undefined ||
+    selection.first !== undefined ||
+    selection.last !== undefined
+  );
+}
+
+/**
+ * Select rounds, in round order and without duplicates. Index ranges and the time window
+ * are intersected; --first/--last then trim what is left. Negative indexes are resolved
+ * against the total number of rounds, so all rounds must be passed in.
+ */
+export function selectRounds(rounds: Round[], selection: RoundSelection): Round[] {
+  const total = rounds.length;
+  const resolve = (index: number) => (index < 0 ? total + index : index);
+
+  let selected = rounds.filter((round) => {
+    if (selection.ranges && !selection.ranges.some((range) => round.roundNumber >= resolve(range.from) && round.roundNumber <= resolve(range.to))) {
+      return false;
+    }
+    const start = new Date(round.startTimestamp).getTime();
+    if (selection.since !== undefined && !(start >= selection.since)) {
+      return false;
+    }
+    if (selection.until !== undefined && !(start <= selection.until)) {
+      return false;
+    }
+    return true;
+  });
+
+  if (selection.first !== undefined) {
+    selected = selected.slice(0, selection.first);
+  }
+  if (selection.last !== undefined) {
+    selected = selected.slice(Math.max(0, selected.length - selection.last));
+  }
+  return selected;
+}
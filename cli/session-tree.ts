@@ -0,0 +1,205 @@
+// Conversation tree reconstruction from parentUuid forks
+import type { ClaudeRawEntry } from '../shared/round-types.ts';
+import { isUserPrompt } from '../shared/segmenters.ts';
+
+/**
+ * A point where the conversation splits into alternatives, e.g. a prompt that was
+ * edited after a rewind (sibling user prompts) or a regenerated response
+ * (sibling assistant messages with different message ids).
+ */
+export interface SessionFork {
+  index: number;
+  parentUuid: string;
+  alternatives: string[]; // uuid of the first entry of each alternative, in file order
+}
+
+export interface SessionBranch {
+  index: number;
+  isActive: boolean;
+  leafUuid: string | null;
+  choices: number[]; // Alternative taken at each fork (by fork index), -1 if the fork is not on this branch
+  entries: ClaudeRawEntry[];
+}
+
+export interface SessionTree {
+  forks: SessionFork[];
+  branches: SessionBranch[];
+  activeBranchIndex: number;
+}
+
+export type BranchSelector = 'all' | 'active' | number;
+
+// A fork choice on an entry's ancestor path: [fork index, alternative index]
+type Choice = [number, number];
+
+function getMessageId(entry: ClaudeRawEntry): string | undefined {
+  const message = entry.message as Record<string, unknown> | undefined;
+  return typeof message?.id === 'string' ? message.id : undefined;
+}
+
+/**
+ * Order two choice lists by the first fork where they differ
+ */
+function compareChoices(a: number[], b: number[]): number {
+  const i = a.findIndex((alt, j) => alt !== b[j]);
+  return i === -1 ? 0 : a[i] - b[i];
+}
+
+/**
+ * Find the alternatives among the children of one entry.
+ * Tool results and further chunks of the same assistant message also hang off
+ * assistant entries, so only repeated prompts or distinct assistant messages count.
+ */
+function findAlternatives(children: ClaudeRawEntry[]): string[] {
+  const prompts = children.filter(isUserPrompt);
+  if (prompts.length > 1) {
+    return prompts.map((child) => child.uuid!);
+  }
+
+  const firstPerMessage = new Map<string, string>();
+  for (const child of children) {
+    const messageId = getMessageId(child);
+    if (child.type === 'assistant' && messageId && !firstPerMessage.has(messageId)) {
+      firstPerMessage.set(messageId, child.uuid!);
+    }
+  }
+  return firstPerMessage.size > 1 ? [...firstPerMessage.values()] : [];
+}
+
+/**
+ * Build the conversation tree of a session and enumerate its linear branches.
+ *
+ * Entries keep their file order within each branch; entries outside any fork (and
+ * entries without a uuid, which follow the entry before them) are shared by all
+ * branches. Sidechain entries and the session root are never treated as forks,
+ * since subagent runs and resumed/compacted sessions also start new roots.
+ *
+ * The active branch is the one that contains the last entry written to the file,
+ * which is where Claude Code continues from.
+ */
+export function buildSessionTree(entries: ClaudeRawEntry[]): SessionTree {
+  const byUuid = new Map<string, ClaudeRawEntry>();
+  const children = new Map<string, ClaudeRawEntry[]>();
+
+  for (const entry of entries) {
+    if (entry.uuid && !byUuid.has(entry.uuid)) {
+      byUuid.set(entry.uuid, entry);
+    }
+  }
+
+  for (const entry of entries) {
+    if (!entry.uuid || entry.isSidechain || !entry.parentUuid || !byUuid.has(entry.parentUuid)) continue;
+    const siblings = children.get(entry.parentUuid) ?? [];
+    siblings.push(entry);
+    children.set(entry.parentUuid, siblings);
+  }
+
+  // Detect forks (in file order of their first child)
+  const forks: SessionFork[] = [];
+  const alternativeOf = new Map<string, Choice>();
+  for (const [parentUuid, siblings] of children) {
+    const alternatives = findAlternatives(siblings);
+    if (alternatives.length > 1) {
+      const fork: SessionFork = { index: forks.length, parentUuid, alternatives };
+      alternatives.forEach((uuid, i) => alternativeOf.set(uuid, [fork.index, i]));
+      forks.push(fork);
+    }
+  }
+
+  // Each entry's fork choices along its ancestor path (memoized, iterative to survive deep chains)
+  const pathChoices = new Map<string, Choice[]>();
+  function getPathChoices(uuid: string): Choice[] {
+    const chain: string[] = [];
+    const visited = new Set<string>();
+    let current: string | null = uuid;
+    while (current && byUuid.has(current) && !pathChoices.has(current) && !visited.has(current)) {
+      visited.add(current);
+      chain.push(current);
+      current = byUuid.get(current)!.parentUuid ?? null;
+    }
+
+    let inherited = current && pathChoices.has(current) ? pathChoices.get(current)! : [];
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const choice = alternativeOf.get(chain[i]);
+      inherited = choice ? [...inherited, choice] : inherited;
+      pathChoices.set(chain[i], inherited);
+    }
+    return pathChoices.get(uuid)!;
+  }
+
+  let previousChoices: Choice[] = [];
+  const entryChoices = entries.map((entry) => {
+    if (entry.uuid && byUuid.get(entry.uuid) === entry) {
+      previousChoices = getPathChoices(entry.uuid);
+    }
+    return previousChoices;
+  });
+
+  const isOnBranch = (path: Choice[], choices: number[]) => path.every(([fork, alt]) => choices[fork] === alt);
+
+  // Enumerate every consistent combination of choices, deciding forks as they become reachable
+  const branchChoices: number[][] = [];
+  function enumerate(choices: number[]): void {
+    const next = forks.find((fork) => choices[fork.index] === -1 && isOnBranch(getPathChoices(fork.parentUuid), choices));
+    if (!next) {
+      branchChoices.push(choices);
+      return;
+    }
+    next.alternatives.forEach((_, alt) => {
+      const updated = [...choices];
+      updated[next.index] = alt;
+      enumerate(updated);
+    });
+  }
+  enumerate(forks.map(() => -1));
+
+  const branches: SessionBranch[] = branchChoices.map((choices, index) => {
+    const branchEntries = entries.filter((_, i) => isOnBranch(entryChoices[i], choices));
+    const leaf = [...branchEntries].reverse().find((entry) => entry.uuid);
+    return {
+      index,
+      isActive: false,
+      leafUuid: leaf?.uuid ?? null,
+      choices,
+      entries: branchEntries,
+    };
+  });
+
+  // Active branch: contains the last entry, preferring later alternatives at forks off its path
+  const lastPath = entries.length > 0 ? entryChoices[entries.length - 1] : [];
+  let activeBranchIndex = 0;
+  let activeFound = false;
+  for (const branch of branches) {
+    if (!isOnBranch(lastPath, branch.choices)) continue;
+    if (!activeFound || compareChoices(branch.choices, branches[activeBranchIndex].choices) > 0) {
+      activeBranchIndex = branch.index;
+      activeFound = true;
+    }
+  }
+  if (branches.length > 0) {
+    branches[activeBranchIndex].isActive = true;
+  }
+
+  return { forks, branches, activeBranchIndex };
+}
+
+/**
+ * Parse a --branch value: "all", "active" or a branch number
+ */
+export function parseBranchSelector(value: string): BranchSelector | null {
+  if (value === 'all' || value === 'active') {
+    return value;
+  }
+  const num = parseInt(value, 10);
+  return !isNaN(num) && num >= 0 && String(num) === value ? num : null;
+}
+
+export function selectBranches(tree: SessionTree, selector: BranchSelector): SessionBranch[] {
+  if (selector === 'all') {
+    return tree.branches;
+  }
+  if (selector === 'active') {
+    return tree.branches.filter((b) => b.isActive);
+  }
+  return tree.branches.filter((b) => b.index === selector);
+}
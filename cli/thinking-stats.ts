@@ -0,0 +1,170 @@
+// Thinking statistics per round, and (prompt, thinking, answer) triples for thinking datasets
+import type { ClaudeRawEntry, Round } from '../shared/round-types.ts';
+import { isUserPrompt } from '../shared/segmenters.ts';
+
+/**
+ * Thinking of the main agent in one round (subagent runs are trajectories of their own)
+ */
+export interface ThinkingStats {
+  roundNumber: number;
+  summary: string;
+  level: string | null; // thinkingMetadata.level of the round's prompt
+  blocks: number; // thinking blocks with text
+  redactedBlocks: number; // redacted_thinking blocks: encrypted by the API, no readable text
+  thinkingChars: number;
+  thinkingTokens: number; // Estimated from the characters (see estimateTokens)
+  visibleChars: number; // Assistant text and tool_use inputs
+  visibleTokens: number;
+  ratio: number | null; // thinkingChars / visibleChars, null without visible output
+}
+
+export interface ThinkingFilter {
+  levels?: string[]; // Keep rounds whose level is one of these
+  minLength?: number; // Keep rounds with at least this many characters of thinking
+}
+
+export interface ThinkingTriple {
+  file: string;
+  roundNumber: number;
+  level: string | null;
+  prompt: string;
+  thinking: string; // Thinking blocks of the round, in order, separated by blank lines
+  answer: string; // The assistant's text after its last tool result
+}
+
+// Rough average for English text and code; good enough to compare rounds
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+function getContentBlocks(entry: ClaudeRawEntry): Array<Record<string, unknown>> {
+  const content = entry.message?.content;
+  return Array.isArray(content) ? (content as Array<Record<string, unknown>>) : [];
+}
+
+function getThinkingText(block: Record<string, unknown>): string {
+  // Support both old format (text) and new format (thinking field)
+  const text = typeof block.thinking === 'string' && block.thinking ? block.thinking : block.text;
+  return typeof text === 'string' ? text.trim() : '';
+}
+
+function getText(entry: ClaudeRawEntry): string {
+  const content = entry.message?.content;
+  if (typeof content === 'string') {
+    return content;
+  }
+  return getContentBlocks(entry)
+    .filter((block) => block.type === 'text' && typeof block.text === 'string')
+    .map((block) => block.text as string)
+    .join('\n');
+}
+
+function getLevel(entries: ClaudeRawEntry[]): string | null {
+  for (const entry of entries) {
+    const level = entry.thinkingMetadata?.level;
+    if (typeof level === 'string' && level !== '') {
+      return level;
+    }
+  }
+  return null;
+}
+
+function parseEntries(round: Round): ClaudeRawEntry[] {
+  return round.entries.map((entry) => JSON.parse(entry.rawContent) as ClaudeRawEntry);
+}
+
+/**
+ * Count and measure the thinking of a round against what the assistant showed
+ */
+export function computeThinkingStats(round: Round): ThinkingStats {
+  const entries = parseEntries(round);
+  const stats: ThinkingStats = {
+    roundNumber: round.roundNumber,
+    summary: round.summary,
+    level: getLevel(entries),
+    blocks: 0,
+    redactedBlocks: 0,
+    thinkingChars: 0,
+    thinkingTokens: 0,
+    visibleChars: 0,
+    visibleTokens: 0,
+    ratio: null,
+  };
+
+  for (const entry of entries) {
+    if (entry.type !== 'assistant') continue;
+    for (const block of getContentBlocks(entry)) {
+      if (block.type === 'thinking') {
+        const text = getThinkingText(block);
+        if (text) {
+          stats.blocks++;
+          stats.thinkingChars += text.length;
+        }
+      } else if (block.type === 'redacted_thinking') {
+        stats.redactedBlocks++;
+      } else if (block.type === 'text' && typeof block.text === 'string') {
+        stats.visibleChars += block.text.trim().length;
+      } else if (block.type === 'tool_use') {
+        stats.visibleChars += JSON.stringify(block.input ?? {}).length;
+      }
+    }
+  }
+
+  stats.thinkingTokens = estimateTokens(stats.thinkingChars);
+  stats.visibleTokens = estimateTokens(stats.visibleChars);
+  stats.ratio = stats.visibleChars > 0 ? stats.thinkingChars / stats.visibleChars : null;
+  return stats;
+}
+
+/**
+ * Check a round's statistics against a filter (an empty filter keeps everything)
+ */
+export function matchesThinkingFilter(stats: ThinkingStats, filter: ThinkingFilter): boolean {
+  if (filter.levels && filter.levels.length > 0 && !filter.levels.includes(stats.level ?? '')) {
+    return false;
+  }
+  return filter.minLength === undefined || stats.thinkingChars >= filter.minLength;
+}
+
+/**
+ * Turn a round into a (prompt, thinking, answer) triple. Returns null for rounds without
+ * a user prompt, readable thinking or a final answer (e.g. ones that end in a tool call).
+ */
+export function roundToThinkingTriple(round: Round, file: string): ThinkingTriple | null {
+  const entries = parseEntries(round);
+  const prompt = entries.find(isUserPrompt);
+  if (!prompt) {
+    return null;
+  }
+
+  const thinking: string[] = [];
+  let answer: string[] = [];
+  for (const entry of entries) {
+    if (entry.type === 'user' && getContentBlocks(entry).some((block) => block.type === 'tool_result')) {
+      // Text before a tool result was an intermediate step, not the answer
+      answer = [];
+    } else if (entry.type === 'assistant') {
+      for (const block of getContentBlocks(entry)) {
+        if (block.type === 'thinking' && getThinkingText(block)) {
+          thinking.push(getThinkingText(block));
+        }
+      }
+      const text = getText(entry).trim();
+      if (text) answer.push(text);
+    }
+  }
+
+  if (thinking.length === 0 || answer.length === 0) {
+    return null;
+  }
+  return {
+    file,
+    roundNumber: round.roundNumber,
+    level: getLevel(entries),
+    prompt: getText(prompt).trim(),
+    thinking: thinking.join('\n\n'),
+    answer: answer.join('\n\n'),
+  };
+}
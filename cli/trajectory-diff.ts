@@ -0,0 +1,223 @@
+// Compare two trajectories of the same task: align rounds, then tool calls within rounds
+import type { ClaudeRawEntry, Round, ToolCall } from '../shared/round-types.ts';
+import { getMessageText, isUserPrompt } from '../shared/segmenters.ts';
+
+export type DiffStatus = 'same' | 'changed' | 'added' | 'removed';
+
+// What differs between two aligned tool calls
+export type StepChange = 'input' | 'output' | 'error';
+
+/**
+ * A tool call present in a, in b or in both. Calls only in b are "added",
+ * calls only in a are "removed".
+ */
+export interface StepDiff {
+  status: DiffStatus;
+  a: ToolCall | null;
+  b: ToolCall | null;
+  changes: StepChange[];
+}
+
+export interface RoundDiff {
+  status: DiffStatus;
+  a: Round | null;
+  b: Round | null;
+  similarity: number; // Prompt similarity of the aligned rounds (0 for added/removed)
+  steps: StepDiff[];
+}
+
+export interface DiffCounts {
+  same: number;
+  changed: number;
+  added: number;
+  removed: number;
+}
+
+export interface TrajectoryDiff {
+  fileA: string;
+  fileB: string;
+  rounds: RoundDiff[];
+  roundCounts: DiffCounts;
+  stepCounts: DiffCounts;
+}
+
+export interface DiffOptions {
+  threshold?: number; // Minimum prompt similarity for two rounds to be aligned
+}
+
+export const DEFAULT_DIFF_THRESHOLD = 0.5;
+
+// Input fields that say what a tool call acted on, in order of preference
+const TARGET_FIELDS = ['file_path', 'notebook_path', 'path', 'command', 'pattern', 'url', 'query', 'description'];
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/**
+ * Dice coefficient of the word multisets of two texts, from 0 (nothing shared) to 1 (same words)
+ */
+export function textSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  if (wordsA.length === 0 || wordsB.length === 0) {
+    return 0;
+  }
+  const counts = new Map<string, number>();
+  for (const word of wordsA) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (const word of wordsB) {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(word, count - 1);
+    }
+  }
+  return (2 * shared) / (wordsA.length + wordsB.length);
+}
+
+/**
+ * Order-preserving alignment that maximizes the total score of the aligned pairs
+ * (Needleman-Wunsch without gap penalties). Pairs scoring 0 are never aligned.
+ * Returns [indexA, indexB] pairs in order, with null on the side where an item is missing.
+ */
+function align<A, B>(a: A[], b: B[], score: (x: A, y: B) => number): Array<[number | null, number | null]> {
+  const scores = a.map((x) => b.map((y) => score(x, y)));
+  // best[i][j]: best total for a[i..] and b[j..]
+  const best = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      const pair = scores[i][j] > 0 ? scores[i][j] + best[i + 1][j + 1] : 0;
+      best[i][j] = Math.max(pair, best[i + 1][j], best[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number | null, number | null]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (scores[i][j] > 0 && best[i][j] === scores[i][j] + best[i + 1][j + 1]) {
+      pairs.push([i++, j++]);
+    } else if (best[i][j] === best[i + 1][j]) {
+      pairs.push([i++, null]);
+    } else {
+      pairs.push([null, j++]);
+    }
+  }
+  while (i < a.length) pairs.push([i++, null]);
+  while (j < b.length) pairs.push([null, j++]);
+  return pairs;
+}
+
+/**
+ * Short description of a tool call, e.g. `Edit src/app.ts` or `Bash npm test`
+ */
+export function describeToolCall(call: ToolCall): string {
+  const name = call.name ?? 'unknown';
+  if (typeof call.input !== 'object' || call.input === null) {
+    return name;
+  }
+  const input = call.input as Record<string, unknown>;
+  const field = TARGET_FIELDS.find((key) => typeof input[key] === 'string' && input[key] !== '');
+  if (!field) {
+    return name;
+  }
+  const target = (input[field] as string).replace(/\s+/g, ' ').trim();
+  return `${name} ${target.length > 60 ? `${target.substring(0, 60)}...` : target}`;
+}
+
+/**
+ * Tool calls of different tools never align; calls of the same tool align
+ * more strongly the more their inputs agree
+ */
+function stepScore(a: ToolCall, b: ToolCall): number {
+  if (a.name !== b.name) {
+    return 0;
+  }
+  return 1 + textSimilarity(JSON.stringify(a.input ?? {}), JSON.stringify(b.input ?? {}));
+}
+
+function compareSteps(a: ToolCall, b: ToolCall): StepChange[] {
+  const changes: StepChange[] = [];
+  if (JSON.stringify(a.input ?? {}) !== JSON.stringify(b.input ?? {})) changes.push('input');
+  if (a.output !== b.output) changes.push('output');
+  if (a.isError !== b.isError) changes.push('error');
+  return changes;
+}
+
+/**
+ * Align the tool calls of two rounds
+ */
+export function diffToolCalls(a: ToolCall[], b: ToolCall[]): StepDiff[] {
+  return align(a, b, stepScore).map(([i, j]): StepDiff => {
+    if (i === null) return { status: 'added', a: null, b: b[j!], changes: [] };
+    if (j === null) return { status: 'removed', a: a[i], b: null, changes: [] };
+    const changes = compareSteps(a[i], b[j]);
+    return { status: changes.length > 0 ? 'changed' : 'same', a: a[i], b: b[j], changes };
+  });
+}
+
+/**
+ * Full text of the round's opening prompt (the summary is cut at 100 characters)
+ */
+function getPromptText(round: Round): string {
+  for (const roundEntry of round.entries) {
+    const entry = JSON.parse(roundEntry.rawContent) as ClaudeRawEntry;
+    if (isUserPrompt(entry)) {
+      return getMessageText(entry);
+    }
+  }
+  return round.summary;
+}
+
+function countStatuses(items: Array<{ status: DiffStatus }>): DiffCounts {
+  const counts: DiffCounts = { same: 0, changed: 0, added: 0, removed: 0 };
+  for (const item of items) {
+    counts[item.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Compare two trajectories. Rounds are aligned by the similarity of their prompts
+ * (rounds below the threshold count as added/removed), then the tool calls of each
+ * aligned pair are aligned by tool name and input.
+ */
+export function diffTrajectories(roundsA: Round[], roundsB: Round[], fileA: string, fileB: string, options: DiffOptions = {}): TrajectoryDiff {
+  const threshold = options.threshold ?? DEFAULT_DIFF_THRESHOLD;
+  const prompts = new Map([...roundsA, ...roundsB].map((round) => [round, getPromptText(round)]));
+  const promptScore = (x: Round, y: Round) => {
+    const similarity = textSimilarity(prompts.get(x)!, prompts.get(y)!);
+    return similarity >= threshold ? similarity : 0;
+  };
+
+  const rounds = align(roundsA, roundsB, promptScore).map(([i, j]): RoundDiff => {
+    if (i === null) {
+      const b = roundsB[j!];
+      return { status: 'added', a: null, b, similarity: 0, steps: diffToolCalls([], b.toolCalls ?? []) };
+    }
+    if (j === null) {
+      const a = roundsA[i];
+      return { status: 'removed', a, b: null, similarity: 0, steps: diffToolCalls(a.toolCalls ?? [], []) };
+    }
+    const a = roundsA[i];
+    const b = roundsB[j];
+    // Rounds loaded from older JSON exports have no toolCalls
+    const steps = diffToolCalls(a.toolCalls ?? [], b.toolCalls ?? []);
+    const same = prompts.get(a) === prompts.get(b) && steps.every((step) => step.status === 'same');
+    return { status: same ? 'same' : 'changed', a, b, similarity: textSimilarity(prompts.get(a)!, prompts.get(b)!), steps };
+  });
+
+  return {
+    fileA,
+    fileB,
+    rounds,
+    roundCounts: countStatuses(rounds),
+    stepCounts: countStatuses(rounds.flatMap((round) => round.steps)),
+  };
+}
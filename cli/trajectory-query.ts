@@ -0,0 +1,130 @@
+// Find Q&A trajectories whose opening prompt matches a query
+import type { ClaudeRawEntry, Round } from '../shared/round-types.ts';
+import type { SearchOptions } from './round-search.ts';
+import { compileQuery } from './round-search.ts';
+import { getMessageText, isUserPrompt } from '../shared/segmenters.ts';
+
+export type QueryFormat = 'json' | 'jsonl' | 'text';
+
+/**
+ * A round that starts with a user prompt, with its raw entries in file order
+ */
+export interface Trajectory {
+  filePath: string;
+  roundNumber: number;
+  entries: ClaudeRawEntry[];
+}
+
+// Substrings (case-insensitive) that mark a failed trajectory
+const ERROR_INDICATORS = ['api error', 'adapter_disabled', 'format adaptation is disabled'];
+
+/**
+ * Turn a round into a trajectory, or null if it does not start with a user prompt
+ * (e.g. summaries and metadata before the first prompt of a session)
+ */
+export function roundToTrajectory(round: Round, filePath: string): Trajectory | null {
+  const entries = round.entries.map((entry) => JSON.parse(entry.rawContent) as ClaudeRawEntry);
+  const first = entries[0];
+  if (!first || !isUserPrompt(first) || first.message?.role !== 'user') {
+    return null;
+  }
+  return { filePath, roundNumber: round.roundNumber, entries };
+}
+
+/**
+ * Match the opening prompt of a trajectory. Unlike `search`, exact mode compares
+ * the whole prompt with the query.
+ */
+export function matchesQuery(trajectory: Trajectory, query: string, options: Pick<SearchOptions, 'mode' | 'caseSensitive'>): boolean {
+  const text = getMessageText(trajectory.entries[0]);
+  if (options.mode === 'exact') {
+    return options.caseSensitive ? text === query : text.toLowerCase() === query.toLowerCase();
+  }
+  return text.search(compileQuery(query, options)) !== -1;
+}
+
+function containsError(entry: ClaudeRawEntry): boolean {
+  const text = getMessageText(entry).toLowerCase();
+  if (text.includes('error:') && !text.includes('interrupted')) {
+    return true;
+  }
+  return ERROR_INDICATORS.some((indicator) => text.includes(indicator));
+}
+
+function wasInterrupted(entry: ClaudeRawEntry): boolean {
+  const text = getMessageText(entry).toLowerCase();
+  return text.includes('interrupted by user') || text.includes('request interrupted');
+}
+
+function longest(trajectories: Trajectory[]): Trajectory {
+  return trajectories.reduce((best, t) => (t.entries.length > best.entries.length ? t : best));
+}
+
+/**
+ * Pick the best of several matching trajectories: drop those with API errors,
+ * then those interrupted by the user, and take the one with the most entries
+ * (the earliest on ties). If every candidate is dropped, the longest overall wins.
+ * Progress is reported through `log`.
+ */
+export function selectBestTrajectory(trajectories: Trajectory[], log: (message: string) => void): Trajectory | null {
+  if (trajectories.length === 0) {
+    return null;
+  }
+  log(`Found ${trajectories.length} trajector${trajectories.length === 1 ? 'y' : 'ies'}`);
+  if (trajectories.length === 1) {
+    return trajectories[0];
+  }
+
+  const withoutErrors = trajectories.filter((t) => !t.entries.some(containsError));
+  if (withoutErrors.length < trajectories.length) {
+    log(`Discarded ${trajectories.length - withoutErrors.length} trajectory(s) with errors`);
+  }
+
+  const remaining = withoutErrors.filter((t) => !t.entries.some(wasInterrupted));
+  if (remaining.length < withoutErrors.length) {
+    log(`Discarded ${withoutErrors.length - remaining.length} interrupted trajectory(s)`);
+  }
+
+  if (remaining.length === 0) {
+    const best = longest(trajectories);
+    log(`All trajectories were discarded, selected the longest one (${best.entries.length} entries)`);
+    return best;
+  }
+
+  const best = longest(remaining);
+  if (remaining.length > 1) {
+    log(`Selected the largest trajectory (${best.entries.length} entries)`);
+  }
+  return best;
+}
+
+/**
+ * Format trajectories as a JSON array of entry arrays, as JSONL (one entry per line)
+ * or as human-readable text
+ */
+export function formatTrajectories(trajectories: Trajectory[], format: QueryFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(trajectories.map((t) => t.entries), null, 2);
+  }
+  if (format === 'jsonl') {
+    return trajectories.flatMap((t) => t.entries.map((entry) => JSON.stringify(entry))).join('\n');
+  }
+
+  const lines: string[] = [];
+  trajectories.forEach((trajectory, i) => {
+    lines.push(`=== Trajectory ${i + 1} ===`);
+    lines.push(`Messages: ${trajectory.entries.length}`);
+    lines.push('');
+
+    for (const entry of trajectory.entries) {
+      lines.push(`[${entry.type || 'unknown'}]`);
+      if (entry.message) {
+        const text = getMessageText(entry);
+        lines.push(`Role: ${entry.message.role ?? ''}`);
+        lines.push(`Content: ${text.substring(0, 200)}${text.length > 200 ? '...' : ''}`);
+      }
+      lines.push('');
+    }
+  });
+  return lines.join('\n');
+}
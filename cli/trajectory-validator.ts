@@ -0,0 +1,179 @@
+// Integrity checks for Claude Code session trajectories
+import type { ClaudeRawEntry, ParseDiagnostic } from '../shared/round-types.ts';
+import { formatParseDiagnostic } from '../shared/round-extractor.ts';
+import { pairToolCalls } from '../shared/tool-calls.ts';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+  | 'malformed-line'
+  | 'duplicate-uuid'
+  | 'missing-parent'
+  | 'cycle'
+  | 'orphan-tool-result'
+  | 'non-monotonic-timestamp'
+  | 'invalid-timestamp';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: ValidationCode;
+  message: string;
+  uuid?: string;
+  entryIndex?: number;
+}
+
+export interface ValidationReport {
+  filePath: string;
+  entryCount: number;
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+}
+
+function shortId(uuid: string): string {
+  return uuid.length > 8 ? `${uuid.substring(0, 8)}...` : uuid;
+}
+
+/**
+ * Validate the structure of a session.
+ *
+ * Errors: malformed lines, duplicate uuids, parentUuid pointing to a missing entry,
+ * parentUuid cycles, tool_result without a preceding tool_use.
+ * Warnings: timestamps that go backwards in file order, unparseable timestamps,
+ * trailing lines recovered with --repair, and missing parents of the first entry or of
+ * entries with logicalParentUuid (links into the session this one continues).
+ */
+export function validateEntries(entries: ClaudeRawEntry[], filePath: string, diagnostics: ParseDiagnostic[] = []): ValidationReport {
+  const issues: ValidationIssue[] = [];
+
+  for (const diagnostic of diagnostics) {
+    issues.push({
+      severity: diagnostic.repaired ? 'warning' : 'error',
+      code: 'malformed-line',
+      message: formatParseDiagnostic(diagnostic),
+    });
+  }
+
+  // Index entries by uuid, flagging duplicates
+  const uuidToParent = new Map<string, string | null>();
+  entries.forEach((entry, entryIndex) => {
+    if (!entry.uuid) return;
+    if (uuidToParent.has(entry.uuid)) {
+      issues.push({
+        severity: 'error',
+        code: 'duplicate-uuid',
+        message: `uuid ${shortId(entry.uuid)} appears more than once`,
+        uuid: entry.uuid,
+        entryIndex,
+      });
+      return;
+    }
+    uuidToParent.set(entry.uuid, entry.parentUuid ?? null);
+  });
+
+  // Parent references. A continued session starts by pointing at an entry of the earlier file
+  // (the first entry, or one carrying logicalParentUuid), so that is only worth a warning.
+  const firstUuid = entries.find((entry) => entry.uuid)?.uuid;
+  entries.forEach((entry, entryIndex) => {
+    if (entry.uuid && entry.parentUuid && !uuidToParent.has(entry.parentUuid)) {
+      const continued = entry.uuid === firstUuid || typeof entry.logicalParentUuid === 'string';
+      issues.push({
+        severity: continued ? 'warning' : 'error',
+        code: 'missing-parent',
+        message: `entry ${shortId(entry.uuid)} references missing parent ${shortId(entry.parentUuid)}${continued ? ' (continued from another session?)' : ''}`,
+        uuid: entry.uuid,
+        entryIndex,
+      });
+    }
+  });
+
+  // Cycles: walk each chain once, reporting every cycle a single time
+  const settled = new Set<string>();
+  for (const start of uuidToParent.keys()) {
+    const path: string[] = [];
+    const onPath = new Set<string>();
+    let current: string | null = start;
+
+    while (current && !settled.has(current) && uuidToParent.has(current)) {
+      if (onPath.has(current)) {
+        const cycle = path.slice(path.indexOf(current));
+        issues.push({
+          severity: 'error',
+          code: 'cycle',
+          message: `parentUuid cycle: ${cycle.map(shortId).join(' → ')} → ${shortId(current)}`,
+          uuid: current,
+        });
+        break;
+      }
+      onPath.add(current);
+      path.push(current);
+      current = uuidToParent.get(current) ?? null;
+    }
+
+    for (const uuid of path) {
+      settled.add(uuid);
+    }
+  }
+
+  // Tool results must answer a tool_use seen earlier in the file
+  const entryIndexByUuid = new Map<string, number>();
+  entries.forEach((entry, entryIndex) => {
+    if (entry.uuid && !entryIndexByUuid.has(entry.uuid)) {
+      entryIndexByUuid.set(entry.uuid, entryIndex);
+    }
+  });
+  for (const call of pairToolCalls(entries)) {
+    if (call.status !== 'orphaned') continue;
+    issues.push({
+      severity: 'error',
+      code: 'orphan-tool-result',
+      message: `tool_result ${call.id} has no matching tool_use`,
+      uuid: call.toolResultUuid ?? undefined,
+      entryIndex: call.toolResultUuid ? entryIndexByUuid.get(call.toolResultUuid) : undefined,
+    });
+  }
+
+  // Timestamps should not go backwards in file order
+  let previousTime: number | null = null;
+  let previousTimestamp = '';
+  entries.forEach((entry, entryIndex) => {
+    if (!entry.timestamp) return;
+    const time = new Date(entry.timestamp).getTime();
+    if (isNaN(time)) {
+      issues.push({
+        severity: 'warning',
+        code: 'invalid-timestamp',
+        message: `entry ${shortId(entry.uuid ?? `#${entryIndex}`)} has an invalid timestamp: ${entry.timestamp}`,
+        uuid: entry.uuid,
+        entryIndex,
+      });
+      return;
+    }
+    if (previousTime !== null && time < previousTime) {
+      issues.push({
+        severity: 'warning',
+        code: 'non-monotonic-timestamp',
+        message: `entry ${shortId(entry.uuid ?? `#${entryIndex}`)} at ${entry.timestamp} is earlier than the previous entry at ${previousTimestamp}`,
+        uuid: entry.uuid,
+        entryIndex,
+      });
+    }
+    previousTime = time;
+    previousTimestamp = entry.timestamp;
+  });
+
+  return {
+    filePath,
+    entryCount: entries.length,
+    errorCount: issues.filter((i) => i.severity === 'error').length,
+    warningCount: issues.filter((i) => i.severity === 'warning').length,
+    issues,
+  };
+}
+
+/**
+ * A report passes if it has no errors (and, in strict mode, no warnings)
+ */
+export function isHealthy(report: ValidationReport, strict = false): boolean {
+  return report.errorCount === 0 && (!strict || report.warningCount === 0);
+}
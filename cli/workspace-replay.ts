@@ -0,0 +1,297 @@
+// Reconstruct workspace files by replaying the Edit, MultiEdit and Write tool calls of a session
+import type { ClaudeRawEntry, Round, ToolCall } from '../shared/round-types.ts';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+// Tools whose calls change files
+export const FILE_EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write'];
+
+// Files outside the session's working directory go here in the output, under their absolute path
+export const EXTERNAL_DIR = '_external';
+
+/**
+ * Why a recorded edit could not be applied:
+ * unknown-file: the file was edited before it was written and is not in the checkout, the file history
+ * or the tool result
+ * no-match: old_string does not occur in the file
+ * ambiguous: old_string occurs more than once and replace_all is not set
+ */
+export type ReplayConflictReason = 'unknown-file' | 'no-match' | 'ambiguous';
+
+export interface ReplayConflict {
+  roundNumber: number;
+  uuid: string;
+  toolUseId: string;
+  tool: string;
+  filePath: string;
+  reason: ReplayConflictReason;
+  oldString?: string;
+}
+
+export interface ReplayOptions {
+  baseDir?: string; // Checkout of the project as it was when the session started
+  fileHistoryDir?: string; // Directory with the backups named in file-history-snapshot entries
+  untilRound?: number; // Stop after this round
+  untilUuid?: string; // Stop after the entry with this uuid
+}
+
+export interface ReplayResult {
+  root: string | null; // Working directory of the session
+  files: Map<string, string>; // Absolute path → content, for every file the session wrote or edited
+  applied: number; // Tool calls applied
+  failed: number; // Tool calls skipped because their tool_result was an error
+  conflicts: ReplayConflict[];
+  stoppedAt: { roundNumber: number; uuid: string | null } | null;
+}
+
+export interface StringEdit {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+/**
+ * The Edit, MultiEdit and Write tool_use blocks of an assistant entry
+ */
+export function getFileToolUses(entry: ClaudeRawEntry): Array<Record<string, unknown>> {
+  const content = entry.message?.content;
+  if (entry.type !== 'assistant' || !Array.isArray(content)) {
+    return [];
+  }
+  return (content as Array<Record<string, unknown>>).filter(
+    (item) => item.type === 'tool_use' && typeof item.name === 'string' && FILE_EDIT_TOOLS.includes(item.name)
+  );
+}
+
+/**
+ * The old_string/new_string pairs of an Edit or MultiEdit input
+ */
+export function getStringEdits(name: string, input: Record<string, unknown>): StringEdit[] {
+  const edits = name === 'MultiEdit' ? input.edits : [input];
+  if (!Array.isArray(edits)) {
+    return [];
+  }
+  return (edits as Array<Record<string, unknown>>)
+    .filter((edit) => typeof edit?.old_string === 'string' && typeof edit.new_string === 'string')
+    .map((edit) => ({ old_string: edit.old_string as string, new_string: edit.new_string as string, replace_all: edit.replace_all === true }));
+}
+
+function countOccurrences(text: string, search: string): number {
+  let count = 0;
+  for (let i = text.indexOf(search); i !== -1; i = text.indexOf(search, i + search.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Apply string edits like Claude Code does: every old_string must occur exactly once
+ * (or any number of times with replace_all), otherwise nothing is applied.
+ * An Edit with an empty old_string creates the file (content null means the file is unknown).
+ */
+export function applyStringEdits(content: string | null, edits: StringEdit[]): { content: string } | { reason: ReplayConflictReason; oldString?: string } {
+  let result = content;
+  // Claude Code creates a new file from an Edit with an empty old_string
+  if (result === null && edits[0]?.old_string === '') {
+    result = '';
+  }
+  if (result === null) {
+    return { reason: 'unknown-file' };
+  }
+  for (const edit of edits) {
+    if (edit.old_string === '') {
+      result = edit.new_string + result;
+      continue;
+    }
+    const count = countOccurrences(result, edit.old_string);
+    if (count === 0 || (count > 1 && !edit.replace_all)) {
+      return { reason: count === 0 ? 'no-match' : 'ambiguous', oldString: edit.old_string };
+    }
+    result = edit.replace_all ? result.split(edit.old_string).join(edit.new_string) : result.replace(edit.old_string, () => edit.new_string);
+  }
+  return { content: result };
+}
+
+/**
+ * Path of a session file inside the output directory (or the checkout):
+ * relative to the working directory, or under _external/ for files outside it
+ */
+export function toWorkspacePath(filePath: string, root: string | null): string {
+  if (path.isAbsolute(filePath)) {
+    // Resolve ".." first, so /home/me/app/../../../tmp/x cannot pass for a path inside the root
+    const resolved = path.resolve(filePath);
+    const resolvedRoot = root ? path.resolve(root) : null;
+    if (resolvedRoot && (resolved === resolvedRoot || resolved.startsWith(resolvedRoot.endsWith(path.sep) ? resolvedRoot : resolvedRoot + path.sep))) {
+      return path.relative(resolvedRoot, resolved);
+    }
+    return path.join(EXTERNAL_DIR, resolved);
+  }
+  // Relative paths must not point outside the output directory
+  const parts = path.normalize(filePath).split(/[/\\]/);
+  let outside = false;
+  while (parts[0] === '..') {
+    parts.shift();
+    outside = true;
+  }
+  return outside ? path.join(EXTERNAL_DIR, ...parts) : parts.join(path.sep);
+}
+
+/**
+ * Content of the file before an edit, as Claude Code records it in the edit's tool result
+ */
+function getOriginalFile(resultEntry: ClaudeRawEntry | undefined): string | null {
+  const result = resultEntry?.toolUseResult;
+  if (typeof result !== 'object' || result === null) {
+    return null;
+  }
+  const originalFile = (result as Record<string, unknown>).originalFile;
+  return typeof originalFile === 'string' ? originalFile : null;
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replay the file edits of a session in order. Rounds should be extracted with inline
+ * sidechains, so that subagent edits are replayed where they happened.
+ *
+ * A file's starting content comes from the checkout (baseDir), or else from the first
+ * file-history backup recorded for it, or else from the originalFile Claude Code recorded
+ * in the tool result of the first edit. Edits whose old_string no longer matches are reported
+ * as conflicts and skipped, like Claude Code would have rejected them; a MultiEdit is
+ * applied only if all of its edits match. Tool calls that failed in the session are skipped.
+ */
+export async function replayWorkspace(rounds: Round[], options: ReplayOptions = {}): Promise<ReplayResult> {
+  const files = new Map<string, string>();
+  const unknownFiles = new Set<string>(); // Looked up once, not in the checkout or file history
+  const backups = new Map<string, string>(); // Absolute path → backup file name of its earliest snapshot
+  const conflicts: ReplayConflict[] = [];
+  let root: string | null = null;
+  let applied = 0;
+  let failed = 0;
+
+  const loadFile = async (filePath: string, originalFile: string | null): Promise<string | null> => {
+    if (files.has(filePath)) return files.get(filePath)!;
+
+    let content: string | null = null;
+    if (!unknownFiles.has(filePath)) {
+      if (options.baseDir) {
+        const relative = toWorkspacePath(filePath, root);
+        if (!relative.startsWith(EXTERNAL_DIR + path.sep)) {
+          content = await readOptionalFile(path.join(options.baseDir, relative));
+        }
+      }
+      const backup = backups.get(filePath);
+      if (content === null && options.fileHistoryDir && backup) {
+        content = await readOptionalFile(path.join(options.fileHistoryDir, backup));
+      }
+      if (content === null) {
+        unknownFiles.add(filePath);
+      }
+    }
+    // The tool result of the edit recorded the file as it was before
+    content ??= originalFile;
+    if (content !== null) {
+      files.set(filePath, content);
+    }
+    return content;
+  };
+
+  const applyToolUse = async (roundNumber: number, entry: ClaudeRawEntry, toolUse: Record<string, unknown>, call: ToolCall | undefined, resultEntry: ClaudeRawEntry | undefined) => {
+    const name = toolUse.name as string;
+    const input = (toolUse.input ?? {}) as Record<string, unknown>;
+    if (typeof input.file_path !== 'string') return;
+    if (call?.isError) {
+      failed++;
+      return;
+    }
+    const filePath = input.file_path;
+    const conflict = (reason: ReplayConflictReason, oldString?: string) => {
+      conflicts.push({ roundNumber, uuid: entry.uuid ?? '', toolUseId: String(toolUse.id), tool: name, filePath, reason, ...(oldString !== undefined ? { oldString } : {}) });
+    };
+
+    if (name === 'Write') {
+      files.set(filePath, typeof input.content === 'string' ? input.content : '');
+      unknownFiles.delete(filePath);
+      applied++;
+      return;
+    }
+
+    const result = applyStringEdits(await loadFile(filePath, getOriginalFile(resultEntry)), getStringEdits(name, input));
+    if ('reason' in result) {
+      conflict(result.reason, result.oldString);
+      return;
+    }
+    files.set(filePath, result.content);
+    applied++;
+  };
+
+  for (const round of rounds) {
+    const callsById = new Map((round.toolCalls ?? []).map((call) => [call.id, call]));
+    const entries = round.entries.map((roundEntry) => JSON.parse(roundEntry.rawContent) as ClaudeRawEntry);
+    const entriesByUuid = new Map(entries.flatMap((entry) => (entry.uuid ? [[entry.uuid, entry] as const] : [])));
+    for (const [index, roundEntry] of round.entries.entries()) {
+      const entry = entries[index];
+      if (!root && typeof entry.cwd === 'string') {
+        root = entry.cwd;
+      }
+
+      if (entry.type === 'file-history-snapshot') {
+        const snapshot = entry.snapshot as { trackedFileBackups?: Record<string, { backupFileName?: string | null }> } | undefined;
+        for (const [trackedPath, backup] of Object.entries(snapshot?.trackedFileBackups ?? {})) {
+          // Tracked paths may be relative to the working directory
+          const absolutePath = root && !path.isAbsolute(trackedPath) ? path.join(root, trackedPath) : trackedPath;
+          if (backup?.backupFileName && !backups.has(absolutePath)) {
+            backups.set(absolutePath, backup.backupFileName);
+          }
+        }
+      }
+
+      for (const toolUse of getFileToolUses(entry)) {
+        const call = callsById.get(String(toolUse.id));
+        await applyToolUse(round.roundNumber, entry, toolUse, call, call?.toolResultUuid ? entriesByUuid.get(call.toolResultUuid) : undefined);
+      }
+
+      if (options.untilUuid && roundEntry.uuid === options.untilUuid) {
+        return { root, files, applied, failed, conflicts, stoppedAt: { roundNumber: round.roundNumber, uuid: roundEntry.uuid } };
+      }
+    }
+    if (options.untilRound !== undefined && round.roundNumber >= options.untilRound) {
+      return { root, files, applied, failed, conflicts, stoppedAt: { roundNumber: round.roundNumber, uuid: null } };
+    }
+  }
+
+  if (options.untilUuid) {
+    throw new Error(`Entry not found: ${options.untilUuid}`);
+  }
+  return { root, files, applied, failed, conflicts, stoppedAt: null };
+}
+
+/**
+ * Materialise a replayed workspace: a copy of the checkout (without .git) with every
+ * replayed file written over it. Returns the workspace paths of the replayed files.
+ * Throws rather than write a file that would land outside outputDir.
+ */
+export async function writeWorkspace(result: ReplayResult, outputDir: string, baseDir?: string): Promise<string[]> {
+  if (baseDir) {
+    await fs.cp(baseDir, outputDir, { recursive: true, filter: (source) => path.basename(source) !== '.git' });
+  }
+  const written: string[] = [];
+  const outputRoot = path.resolve(outputDir);
+  for (const [filePath, content] of result.files) {
+    const relative = toWorkspacePath(filePath, result.root);
+    const target = path.resolve(outputRoot, relative);
+    if (!target.startsWith(outputRoot + path.sep)) {
+      throw new Error(`Refusing to write outside ${outputDir}: ${filePath}`);
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content, 'utf-8');
+    written.push(relative);
+  }
+  return written.sort();
+}
@@ -1,6 +1,8 @@
 // API routes for sessions
 import { Router } from 'express';
+import { pipeline } from 'node:stream/promises';
 import { claudeFsService } from '../services/claude-fs.service.js';
+import { createRedactor } from '../../shared/redaction.ts';
 
 const router = Router();
 
@@ -50,28 +52,62 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// GET /api/sessions/:id/export - Export raw session data
+// GET /api/sessions/:id/rounds - Get the rounds of a session (?stitch=true to join resumed/continued sessions)
+router.get('/:id/rounds', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { project, stitch } = req.query;
+
+    if (!project) {
+      return res.status(400).json({ error: 'Project query parameter is required' });
+    }
+
+    const result = await claudeFsService.getSessionRounds(id, project as string, stitch === 'true' || stitch === '1');
+
+    if (!result) {
+      return res.status(404).json({ error: 'Session file not found' });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error fetching session rounds:', error);
+    res.status(500).json({ error: 'Failed to fetch session rounds' });
+  }
+});
+
+// GET /api/sessions/:id/export - Export raw session data (?redact=true to redact secrets and PII)
 router.get('/:id/export', async (req, res) => {
   try {
     const { id } = req.params;
-    const { project } = req.query;
+    const { project, redact } = req.query;
 
     if (!project) {
       return res.status(400).json({ error: 'Project query parameter is required' });
     }
 
-    const content = await claudeFsService.getRawSessionData(id, project as string);
+    const redactor = redact === 'true' || redact === '1' ? createRedactor() : null;
+    const stream = redactor
+      ? await claudeFsService.getRedactedSessionStream(id, project as string, redactor)
+      : await claudeFsService.getRawSessionStream(id, project as string);
 
-    if (!content) {
+    if (!stream) {
       return res.status(404).json({ error: 'Session file not found' });
     }
 
+    // Stream the file rather than buffering large sessions in memory
     res.setHeader('Content-Type', 'application/json');
     res.setHeader('Content-Disposition', `attachment; filename="${id}.jsonl"`);
-    res.send(content);
+    await pipeline(stream, res);
+
+    if (redactor) {
+      const report = redactor.report();
+      console.log(`Redacted ${report.total} values from session ${id}:`, report.byRule);
+    }
   } catch (error) {
     console.error('Error exporting session:', error);
-    res.status(500).json({ error: 'Failed to export session' });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to export session' });
+    }
   }
 });
 
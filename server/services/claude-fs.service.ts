@@ -1,32 +1,26 @@
 // Service for reading Claude Code session data from filesystem
-import type { HistoryEntry, SessionMessage, ClaudeFsService } from '../types/claude.types.ts';
+import type { HistoryEntry, SessionMessage, SessionRounds, ClaudeFsService } from '../types/claude.types.ts';
 import type { SessionInfo, SessionDetail, ProjectSummary, Message } from '../../shared/types.ts';
 import * as fs from 'node:fs/promises';
+import { createReadStream } from 'node:fs';
+import { Readable } from 'node:stream';
 import * as path from 'node:path';
 import * as os from 'node:os';
+import { readJsonl } from '../../shared/jsonl-reader.ts';
+import { redactJsonlFile, type Redactor } from '../../shared/redaction.ts';
+import { readSessionRounds } from '../../shared/round-extractor.ts';
+import { stitchSessions, extractStitchedRounds } from '../../shared/session-stitch.ts';
 
 const CLAUDE_DIR = path.join(os.homedir(), '.claude');
 const HISTORY_FILE = path.join(CLAUDE_DIR, 'history.jsonl');
 const PROJECTS_DIR = path.join(CLAUDE_DIR, 'projects');
 
-// Parse a single JSONL line safely
-function parseJSONL(line: string): unknown | null {
-  try {
-    return JSON.parse(line);
-  } catch {
-    return null;
-  }
-}
-
 // Read and parse history.jsonl
 async function readHistory(): Promise<HistoryEntry[]> {
   try {
-    const content = await fs.readFile(HISTORY_FILE, 'utf-8');
-    const lines = content.trim().split('\n');
     const entries: HistoryEntry[] = [];
 
-    for (const line of lines) {
-      const parsed = parseJSONL(line);
+    for await (const parsed of readJsonl(HISTORY_FILE)) {
       if (parsed && typeof parsed === 'object' && 'sessionId' in parsed) {
         entries.push(parsed as HistoryEntry);
       }
@@ -41,12 +35,9 @@ async function readHistory(): Promise<HistoryEntry[]> {
 // Read and parse a session JSONL file
 async function readSessionFile(sessionPath: string): Promise<SessionMessage[]> {
   try {
-    const content = await fs.readFile(sessionPath, 'utf-8');
-    const lines = content.trim().split('\n');
     const messages: SessionMessage[] = [];
 
-    for (const line of lines) {
-      const parsed = parseJSONL(line);
+    for await (const parsed of readJsonl(sessionPath)) {
       if (parsed && typeof parsed === 'object' && 'type' in parsed) {
         messages.push(parsed as SessionMessage);
       }
@@ -213,17 +204,52 @@ export const claudeFsService: ClaudeFsService = {
       .sort((a, b) => b.lastActivity - a.lastActivity);
   },
 
-  // Get raw session file content for export
-  async getRawSessionData(sessionId: string, projectPath: string): Promise<string | null> {
+  // Open raw session file as a stream for export
+  async getRawSessionStream(sessionId: string, projectPath: string): Promise<Readable | null> {
+    const encodedProject = encodeProjectPath(projectPath);
+    const sessionPath = path.join(PROJECTS_DIR, encodedProject, `${sessionId}.jsonl`);
+
+    try {
+      await fs.access(sessionPath);
+      return createReadStream(sessionPath);
+    } catch (error) {
+      console.error('Error reading session file for export:', error);
+      return null;
+    }
+  },
+
+  // Stream a session file with secrets redacted, one entry at a time
+  async getRedactedSessionStream(sessionId: string, projectPath: string, redactor: Redactor): Promise<Readable | null> {
     const encodedProject = encodeProjectPath(projectPath);
     const sessionPath = path.join(PROJECTS_DIR, encodedProject, `${sessionId}.jsonl`);
 
     try {
-      const content = await fs.readFile(sessionPath, 'utf-8');
-      return content;
+      await fs.access(sessionPath);
+      return Readable.from(redactJsonlFile(sessionPath, redactor));
     } catch (error) {
       console.error('Error reading session file for export:', error);
       return null;
     }
   },
+
+  // Extract the rounds of a session; with stitch, of all sessions it was resumed from or continued in
+  async getSessionRounds(sessionId: string, projectPath: string, stitch = false): Promise<SessionRounds | null> {
+    const encodedProject = encodeProjectPath(projectPath);
+    const sessionPath = path.join(PROJECTS_DIR, encodedProject, `${sessionId}.jsonl`);
+
+    try {
+      await fs.access(sessionPath);
+    } catch {
+      return null;
+    }
+
+    if (!stitch) {
+      return { sessionIds: [sessionId], rounds: await readSessionRounds(sessionPath) };
+    }
+    const session = await stitchSessions(sessionPath);
+    return {
+      sessionIds: session.files.map((file) => path.basename(file, '.jsonl')),
+      rounds: extractStitchedRounds(session),
+    };
+  },
 };
@@ -1,5 +1,8 @@
 // Types for Claude Code data structures
+import type { Readable } from 'node:stream';
 import type { SessionInfo, SessionDetail, ProjectSummary, SessionsResponse } from '../../shared/types.ts';
+import type { Redactor } from '../../shared/redaction.ts';
+import type { Round } from '../../shared/round-types.ts';
 
 export interface HistoryEntry {
   display: string;
@@ -25,10 +28,18 @@ export interface SessionMessage {
   isSnapshotUpdate?: boolean;
 }
 
+// Rounds of a session, or of every session stitched to it (resumed/continued sessions)
+export interface SessionRounds {
+  sessionIds: string[]; // Oldest first
+  rounds: Round[];
+}
+
 export interface ClaudeFsService {
   getHistoryEntries(): Promise<HistoryEntry[]>;
   getSessionInfos(query?: { project?: string; search?: string; limit?: number; offset?: number }): Promise<SessionsResponse>;
   getSessionDetail(sessionId: string, projectPath: string): Promise<SessionDetail | null>;
   getProjectSummaries(): Promise<ProjectSummary[]>;
-  getRawSessionData(sessionId: string, projectPath: string): Promise<string | null>;
+  getRawSessionStream(sessionId: string, projectPath: string): Promise<Readable | null>;
+  getRedactedSessionStream(sessionId: string, projectPath: string, redactor: Redactor): Promise<Readable | null>;
+  getSessionRounds(sessionId: string, projectPath: string, stitch?: boolean): Promise<SessionRounds | null>;
 }
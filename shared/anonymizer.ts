@@ -0,0 +1,243 @@
+// Path and identity anonymization for sharing trajectories
+import { createHash } from 'node:crypto';
+
+export interface Anonymizer {
+  // First pass: learn the identities in an entry without rewriting it
+  learnEntry(entry: unknown): void;
+  // Rewrite every string of a parsed entry; cwd, gitBranch, userType and sessionId get pseudonyms
+  anonymizeEntry<T>(entry: T): T;
+  anonymizeText(text: string): string;
+}
+
+export const PROJECT_ROOT = '/project';
+
+// Branch names that say nothing about the work
+const GENERIC_BRANCHES = new Set(['main', 'master', 'develop', 'HEAD', '']);
+
+// Account names that are not personal (CI runners, containers)
+const GENERIC_USERS = new Set(['root', 'user', 'runner', 'ubuntu', 'admin', 'Shared']);
+
+// Home directory prefix, up to the user name: /home/, /Users/ or C:\Users\
+const HOME_PREFIX = String.raw`(\/(?:home|Users)\/|[A-Za-z]:\\+Users\\+)`;
+const HOME_PATTERN = new RegExp(`${HOME_PREFIX}([A-Za-z0-9._-]+)`, 'g');
+
+// "user@host" in shell prompts ("me@devbox:~$"), scp-style paths ("me@devbox:src") and
+// ssh targets ("me@devbox.corp.local")
+const PROMPT_PATTERN = /(?<![A-Za-z0-9_.-])([A-Za-z0-9._-]+)@([A-Za-z0-9][A-Za-z0-9-]*(?:\.[A-Za-z0-9][A-Za-z0-9-]*)*)(?=[:\s]|$)/gm;
+
+// Characters that continue a path or name; a match must not be followed by one
+const NAME_CHAR = 'A-Za-z0-9_.-';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Claude Code stores sessions under ~/.claude/projects/<encoded cwd>, with every
+ * non-alphanumeric character replaced by "-"
+ */
+function encodeProjectPath(projectPath: string): string {
+  return projectPath.replace(/[^A-Za-z0-9]/g, '-');
+}
+
+/**
+ * Deterministic UUID-shaped pseudonym, so the same session id maps to the same value in every run
+ */
+function pseudonymizeSessionId(sessionId: string): string {
+  const hex = createHash('sha256').update(sessionId).digest('hex');
+  return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20, 32)}`;
+}
+
+/**
+ * Create an anonymizer for one session. Identities are learned from the entries:
+ * the first cwd becomes /project (further unrelated cwds /project-2, ...), user names
+ * come from home directory paths, host names from "user@host" shell prompts.
+ * Pass all entries to learnEntry before anonymizing any, or identities that first appear
+ * late in the session stay readable in the entries before.
+ *
+ * Paths, host names and session ids are replaced wherever they occur. User names are often
+ * common words ("dev", "test"), so in prompts and assistant text they are only replaced in
+ * home directory paths, ~name and user@host; in tool outputs (tool_result content and
+ * toolUseResult), where whoami, ls -l or id print them bare, every whole word is replaced.
+ */
+export function createAnonymizer(): Anonymizer {
+  const roots = new Map<string, string>(); // Absolute project root → /project[-n]
+  const users = new Map<string, string>(); // User name → userN
+  const hosts = new Map<string, string>(); // Host name → hostN
+  const promptHosts = new Map<string, Set<string>>(); // Name before "@" in a prompt → hosts after it
+  const sessions = new Map<string, string>(); // Session id → pseudonym
+  const branches = new Map<string, string>(); // Git branch → branch-N
+  // Rebuilt when something new is learned
+  let replacements: { text: Array<[RegExp, string]>; toolOutput: Array<[RegExp, string]> } | null = null;
+
+  const learnUser = (name: string) => {
+    if (GENERIC_USERS.has(name) || name.length < 2 || users.has(name) || [...users.values()].includes(name)) return;
+    users.set(name, `user${users.size + 1}`);
+    replacements = null;
+  };
+
+  const learnRoot = (cwd: string) => {
+    const normalized = cwd.replace(/[/\\]+$/, '');
+    if (!normalized || roots.has(normalized)) return;
+    // Subdirectories of a known root and bare home directories are covered by the other rules
+    if ([...roots.keys()].some((root) => normalized.startsWith(root + '/') || normalized.startsWith(root + '\\'))) return;
+    if (new RegExp(`^${HOME_PATTERN.source}$`).test(normalized)) return;
+    roots.set(normalized, roots.size === 0 ? PROJECT_ROOT : `${PROJECT_ROOT}-${roots.size + 1}`);
+    replacements = null;
+  };
+
+  const learnSession = (sessionId: string) => {
+    if (!sessionId || sessions.has(sessionId)) return;
+    sessions.set(sessionId, pseudonymizeSessionId(sessionId));
+    replacements = null;
+  };
+
+  const learnFromText = (text: string) => {
+    for (const match of text.matchAll(HOME_PATTERN)) {
+      learnUser(match[2]);
+    }
+    for (const match of text.matchAll(PROMPT_PATTERN)) {
+      promptHosts.set(match[1], (promptHosts.get(match[1]) ?? new Set()).add(match[2]));
+    }
+    // A prompt may come before the home path that names its user
+    for (const [user] of users) {
+      for (const host of promptHosts.get(user) ?? []) {
+        if (hosts.has(host)) continue;
+        const pseudonym = `host${new Set(hosts.values()).size + 1}`;
+        hosts.set(host, pseudonym);
+        // A machine's own name is the first label of its FQDN (uname, hostname print it);
+        // two-label names are domains, as in e-mail addresses
+        const labels = host.split('.');
+        if (labels.length >= 3 && !hosts.has(labels[0])) {
+          hosts.set(labels[0], pseudonym);
+        }
+        replacements = null;
+      }
+    }
+  };
+
+  const learnValue = (value: unknown, key?: string) => {
+    if (typeof value === 'string') {
+      if (key !== 'signature') learnFromText(value);
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => learnValue(item));
+    } else if (typeof value === 'object' && value !== null) {
+      for (const [itemKey, item] of Object.entries(value)) {
+        learnValue(item, itemKey);
+      }
+    }
+  };
+
+  const learnEntry = (entry: unknown) => {
+    if (typeof entry !== 'object' || entry === null) {
+      return;
+    }
+    const fields = entry as Record<string, unknown>;
+    if (typeof fields.cwd === 'string') {
+      learnFromText(fields.cwd);
+      learnRoot(fields.cwd);
+    }
+    if (typeof fields.sessionId === 'string') {
+      learnSession(fields.sessionId);
+    }
+    learnValue(entry);
+  };
+
+  const getReplacements = (forToolOutput: boolean): Array<[RegExp, string]> => {
+    if (replacements) {
+      return forToolOutput ? replacements.toolOutput : replacements.text;
+    }
+    const word = (value: string) => new RegExp(`(?<![${NAME_CHAR}])${escapeRegExp(value)}(?![${NAME_CHAR}])`, 'g');
+    const byLength = <T>(entries: Array<[string, T]>) => entries.sort((a, b) => b[0].length - a[0].length);
+
+    const text: Array<[RegExp, string]> = [];
+    const toolOutput: Array<[RegExp, string]> = [];
+    const both = (pattern: RegExp, replacement: string) => {
+      text.push([pattern, replacement]);
+      toolOutput.push([pattern, replacement]);
+    };
+    // Longest roots first, so a nested root wins over its parent
+    for (const [root, pseudonym] of byLength([...roots])) {
+      both(new RegExp(`${escapeRegExp(root)}(?![${NAME_CHAR}])`, 'g'), pseudonym);
+      both(word(encodeProjectPath(root)), encodeProjectPath(pseudonym));
+    }
+    for (const [user, pseudonym] of byLength([...users])) {
+      const name = escapeRegExp(user);
+      both(new RegExp(`${HOME_PREFIX}${name}(?![${NAME_CHAR}])`, 'g'), `$1${pseudonym}`);
+      both(new RegExp(`(?<![${NAME_CHAR}])${name}(?=@)`, 'g'), pseudonym);
+      both(new RegExp(`~${name}(?![${NAME_CHAR}])`, 'g'), `~${pseudonym}`);
+      // Encoded project directories under the home directory, e.g. -Users-me-src
+      both(new RegExp(`(-(?:home|Users)-)${escapeRegExp(encodeProjectPath(user))}(?![A-Za-z0-9])`, 'g'), `$1${pseudonym}`);
+      toolOutput.push([word(user), pseudonym]);
+    }
+    for (const [host, pseudonym] of byLength([...hosts])) {
+      both(word(host), pseudonym);
+    }
+    for (const [sessionId, pseudonym] of sessions) {
+      both(new RegExp(escapeRegExp(sessionId), 'g'), pseudonym);
+    }
+    replacements = { text, toolOutput };
+    return forToolOutput ? toolOutput : text;
+  };
+
+  const rewriteText = (text: string, toolOutput: boolean): string => {
+    learnFromText(text);
+    let result = text;
+    for (const [pattern, replacement] of getReplacements(toolOutput)) {
+      result = result.replace(pattern, replacement);
+    }
+    return result;
+  };
+
+  const anonymizeValue = (value: unknown, toolOutput: boolean, key?: string, parent?: Record<string, unknown>): unknown => {
+    if (typeof value === 'string') {
+      // Signatures, encrypted thinking and base64 sources are opaque and must stay byte-identical
+      const opaque = key === 'signature' || (key === 'data' && (parent?.type === 'redacted_thinking' || parent?.type === 'base64'));
+      return opaque ? value : rewriteText(value, toolOutput);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => anonymizeValue(item, toolOutput));
+    }
+    if (typeof value === 'object' && value !== null) {
+      const fields = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [itemKey, item] of Object.entries(fields)) {
+        // What commands printed: the tool_result blocks sent to the model and Claude Code's own record
+        const output = toolOutput || itemKey === 'toolUseResult' || (fields.type === 'tool_result' && itemKey === 'content');
+        result[itemKey] = anonymizeValue(item, output, itemKey, fields);
+      }
+      return result;
+    }
+    return value;
+  };
+
+  return {
+    learnEntry,
+    anonymizeText: (text) => rewriteText(text, false),
+    anonymizeEntry<T>(entry: T): T {
+      if (typeof entry !== 'object' || entry === null) {
+        return entry;
+      }
+      const fields = entry as Record<string, unknown>;
+      if (typeof fields.cwd === 'string') {
+        learnFromText(fields.cwd);
+        learnRoot(fields.cwd);
+      }
+      if (typeof fields.sessionId === 'string') {
+        learnSession(fields.sessionId);
+      }
+
+      const result = anonymizeValue(entry, false) as Record<string, unknown>;
+      if (typeof fields.gitBranch === 'string' && !GENERIC_BRANCHES.has(fields.gitBranch)) {
+        if (!branches.has(fields.gitBranch)) {
+          branches.set(fields.gitBranch, `branch-${branches.size + 1}`);
+        }
+        result.gitBranch = branches.get(fields.gitBranch);
+      }
+      if (typeof fields.userType === 'string' && fields.userType !== '') {
+        result.userType = 'external';
+      }
+      return result as T;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// Streaming JSONL reader shared by the CLI and the server
+import * as fs from 'node:fs';
+
+const NEWLINE = 0x0a;
+const CARRIAGE_RETURN = 0x0d;
+
+export interface JsonlLine {
+  text: string;
+  lineNumber: number; // 1-based line number in the file
+  byteOffset: number; // Byte offset of the first character of the line
+  terminated: boolean; // False for a trailing line without a final newline
+}
+
+function toLine(buffer: Buffer, lineNumber: number, byteOffset: number, terminated: boolean): JsonlLine {
+  // Strip a trailing \r so CRLF files behave like LF files
+  const end = buffer.length > 0 && buffer[buffer.length - 1] === CARRIAGE_RETURN ? buffer.length - 1 : buffer.length;
+  return {
+    text: buffer.toString('utf-8', 0, end),
+    lineNumber,
+    byteOffset,
+    terminated,
+  };
+}
+
+/**
+ * Read a JSONL file line by line without loading it into memory.
+ * Only the current partial line is buffered, so memory stays bounded
+ * by the longest line rather than the file size. Blank lines are skipped
+ * but still counted, so line numbers match what an editor shows.
+ */
+export async function* readJsonlLines(filePath: string): AsyncGenerator<JsonlLine> {
+  const stream = fs.createReadStream(filePath);
+  let pending: Buffer[] = [];
+  let lineNumber = 0;
+  let lineOffset = 0;
+  let fileOffset = 0;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    let start = 0;
+    let newlineIndex = chunk.indexOf(NEWLINE, start);
+
+    while (newlineIndex !== -1) {
+      const piece = chunk.subarray(start, newlineIndex);
+      const buffer = pending.length > 0 ? Buffer.concat([...pending, piece]) : piece;
+      pending = [];
+      lineNumber++;
+
+      const line = toLine(buffer, lineNumber, lineOffset, true);
+      if (line.text.trim()) {
+        yield line;
+      }
+
+      lineOffset = fileOffset + newlineIndex + 1;
+      start = newlineIndex + 1;
+      newlineIndex = chunk.indexOf(NEWLINE, start);
+    }
+
+    if (start < chunk.length) {
+      // Copy so the stream can reuse its chunk buffer
+      pending.push(Buffer.from(chunk.subarray(start)));
+    }
+    fileOffset += chunk.length;
+  }
+
+  // Trailing line without a final newline
+  if (pending.length > 0) {
+    lineNumber++;
+    const line = toLine(Buffer.concat(pending), lineNumber, lineOffset, false);
+    if (line.text.trim()) {
+      yield line;
+    }
+  }
+}
+
+/**
+ * Stream parsed JSON values from a JSONL file, skipping lines that are not valid JSON
+ */
+export async function* readJsonl<T = unknown>(filePath: string): AsyncGenerator<T> {
+  for await (const line of readJsonlLines(filePath)) {
+    let parsed: T;
+    try {
+      parsed = JSON.parse(line.text) as T;
+    } catch {
+      // Skip malformed lines
+      continue;
+    }
+    yield parsed;
+  }
+}
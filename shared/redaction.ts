@@ -0,0 +1,246 @@
+// Secret and PII redaction shared by the CLI and the server
+import * as fs from 'node:fs/promises';
+import { readJsonlLines } from './jsonl-reader.ts';
+
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp; // Compiled with the "g" and "d" flags
+  group?: number; // Redact only this capture group instead of the whole match
+  validate?: (value: string) => boolean; // Extra check on the matched value
+}
+
+/**
+ * Redaction settings, as loaded from a rules file:
+ * {"rules": [{"name", "pattern", "flags"?, "group"?}], "disable": ["email"], "allow": ["value"]}
+ */
+export interface RedactionConfig {
+  rules?: RedactionRule[]; // Added after the built-in rules
+  disable?: string[]; // Names of built-in rules to turn off
+  allow?: string[]; // Values that are never redacted
+}
+
+// Where a value was found
+export interface RedactionLocation {
+  file?: string;
+  line?: number;
+  uuid?: string;
+  field?: string; // JSON path inside the entry, e.g. "message.content[1].content"
+}
+
+export interface RedactionFinding extends RedactionLocation {
+  rule: string;
+  placeholder: string;
+}
+
+export interface RedactionReport {
+  total: number;
+  byRule: Record<string, number>;
+  findings: RedactionFinding[];
+}
+
+export interface Redactor {
+  redactText(text: string, location?: RedactionLocation): string;
+  // Redact every string value of a parsed entry (ids, timestamps, signatures and opaque data are kept)
+  redactEntry<T>(entry: T, location?: RedactionLocation): T;
+  report(): RedactionReport;
+}
+
+// Structural fields: redacting them would break the conversation tree or thinking signatures
+const SKIPPED_KEYS = new Set(['uuid', 'parentUuid', 'leafUuid', 'timestamp', 'type', 'id', 'tool_use_id', 'requestId', 'signature', 'model', 'role']);
+
+/**
+ * Opaque payloads that must stay byte-identical, like signatures: the encrypted `data` of
+ * redacted_thinking blocks and the base64 `data` of image and document sources
+ */
+function isOpaqueData(parent: Record<string, unknown>, key: string): boolean {
+  return key === 'data' && (parent.type === 'redacted_thinking' || parent.type === 'base64');
+}
+
+const PLACEHOLDER_PREFIX = '[REDACTED_';
+
+/**
+ * Shannon entropy in bits per character
+ */
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+export const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/gd },
+  { name: 'anthropic-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/gd },
+  { name: 'openai-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/gd },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/gd },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/gd },
+  { name: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/gd },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/gd },
+  { name: 'stripe-key', pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{24,}/gd },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/gd },
+  // KEY=value and "password": "value" style assignments, e.g. in .env files
+  {
+    name: 'secret-assignment',
+    pattern: /\b[A-Za-z0-9_]*(?:api[_-]?key|secret|token|passw(?:or)?d)[A-Za-z0-9_]*["']?\s*[:=]\s*["']?([^\s"',;]{8,})/gid,
+    group: 1,
+  },
+  { name: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/gd },
+  { name: 'home-path', pattern: /\/(?:home|Users)\/([^/\s"'\\:]+)/gd, group: 1 },
+  { name: 'home-path', pattern: /\b[A-Za-z]:\\+Users\\+([^\\\s"':]+)/gd, group: 1 },
+  // Long random-looking tokens; hex digests (at most 4 bits per character) stay below the threshold
+  {
+    name: 'high-entropy',
+    pattern: /(?<![A-Za-z0-9_+=-])[A-Za-z0-9_+=-]{32,}(?![A-Za-z0-9_+=-])/gd,
+    validate: (value) => /[0-9]/.test(value) && /[A-Za-z]/.test(value) && entropy(value) >= 4.5,
+  },
+];
+
+/**
+ * Load a rules file. Patterns are JavaScript regular expressions.
+ */
+export async function loadRedactionConfig(filePath: string): Promise<RedactionConfig> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid redaction rules file ${filePath}: ${(error as Error).message}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Redaction rules file must contain a JSON object: ${filePath}`);
+  }
+
+  const raw = parsed as { rules?: unknown; disable?: unknown; allow?: unknown };
+  const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string');
+  if (raw.disable !== undefined && !isStringArray(raw.disable)) {
+    throw new Error(`${filePath}: "disable" must be an array of rule names`);
+  }
+  if (raw.allow !== undefined && !isStringArray(raw.allow)) {
+    throw new Error(`${filePath}: "allow" must be an array of strings`);
+  }
+  if (raw.rules !== undefined && !Array.isArray(raw.rules)) {
+    throw new Error(`${filePath}: "rules" must be an array`);
+  }
+
+  const rules = ((raw.rules ?? []) as Array<Record<string, unknown>>).map((rule, i) => {
+    if (typeof rule?.name !== 'string' || typeof rule.pattern !== 'string') {
+      throw new Error(`${filePath}: rule ${i} needs a "name" and a "pattern"`);
+    }
+    const flags = typeof rule.flags === 'string' ? rule.flags.replace(/[gd]/g, '') : '';
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rule.pattern, `${flags}gd`);
+    } catch (error) {
+      throw new Error(`${filePath}: rule "${rule.name}": ${(error as Error).message}`);
+    }
+    return { name: rule.name, pattern, ...(typeof rule.group === 'number' ? { group: rule.group } : {}) };
+  });
+
+  return { rules, disable: raw.disable, allow: raw.allow };
+}
+
+/**
+ * Create a redactor. The same value always gets the same placeholder (e.g. [REDACTED_EMAIL_1]),
+ * so redacted sessions stay readable and references between entries still line up.
+ */
+export function createRedactor(config: RedactionConfig = {}): Redactor {
+  const disabled = new Set(config.disable ?? []);
+  const rules = [...BUILTIN_REDACTION_RULES.filter((rule) => !disabled.has(rule.name)), ...(config.rules ?? [])];
+  const allowed = new Set(config.allow ?? []);
+  const placeholders = new Map<string, string>(); // "<rule>\0<value>" → placeholder
+  const counters = new Map<string, number>();
+  const findings: RedactionFinding[] = [];
+
+  const getPlaceholder = (rule: string, value: string): string => {
+    const key = `${rule}\0${value}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      const n = (counters.get(rule) ?? 0) + 1;
+      counters.set(rule, n);
+      placeholder = `${PLACEHOLDER_PREFIX}${rule.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_${n}]`;
+      placeholders.set(key, placeholder);
+    }
+    return placeholder;
+  };
+
+  const redactText = (text: string, location: RedactionLocation = {}): string => {
+    let result = text;
+    for (const rule of rules) {
+      let output = '';
+      let last = 0;
+      for (const match of result.matchAll(rule.pattern)) {
+        const [start, end] = match.indices?.[rule.group ?? 0] ?? [];
+        if (start === undefined || end === undefined || start < last) continue;
+        const value = result.substring(start, end);
+        // Never redact a placeholder again or a value the rules file allows
+        if (value === '' || value.includes(PLACEHOLDER_PREFIX) || allowed.has(value)) continue;
+        if (rule.validate && !rule.validate(value)) continue;
+
+        const placeholder = getPlaceholder(rule.name, value);
+        findings.push({ rule: rule.name, placeholder, ...location });
+        output += result.substring(last, start) + placeholder;
+        last = end;
+      }
+      if (last > 0) {
+        result = output + result.substring(last);
+      }
+    }
+    return result;
+  };
+
+  const redactValue = (value: unknown, location: RedactionLocation, field: string): unknown => {
+    if (typeof value === 'string') {
+      return redactText(value, { ...location, field });
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => redactValue(item, location, `${field}[${i}]`));
+    }
+    if (typeof value === 'object' && value !== null) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const skipped = SKIPPED_KEYS.has(key) || isOpaqueData(value as Record<string, unknown>, key);
+        result[key] = skipped ? item : redactValue(item, location, field ? `${field}.${key}` : key);
+      }
+      return result;
+    }
+    return value;
+  };
+
+  return {
+    redactText,
+    redactEntry<T>(entry: T, location: RedactionLocation = {}): T {
+      const uuid = (entry as { uuid?: unknown } | null)?.uuid;
+      return redactValue(entry, typeof uuid === 'string' ? { uuid, ...location } : location, '') as T;
+    },
+    report(): RedactionReport {
+      const byRule: Record<string, number> = {};
+      for (const finding of findings) {
+        byRule[finding.rule] = (byRule[finding.rule] ?? 0) + 1;
+      }
+      return { total: findings.length, byRule, findings: [...findings] };
+    },
+  };
+}
+
+/**
+ * Stream the lines of a JSONL file with secrets redacted. Lines that are not valid JSON
+ * are redacted as plain text.
+ */
+export async function* redactJsonlFile(filePath: string, redactor: Redactor): AsyncGenerator<string> {
+  for await (const line of readJsonlLines(filePath)) {
+    const location = { file: filePath, line: line.lineNumber };
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line.text);
+    } catch {
+      yield redactor.redactText(line.text, location) + '\n';
+      continue;
+    }
+    yield JSON.stringify(redactor.redactEntry(entry, location)) + '\n';
+  }
+}
@@ -0,0 +1,862 @@
+// Round extraction logic from Claude Code session data
+import type { ClaudeRawEntry, ExtractOptions, ParseDiagnostic, ParseOptions, Round, RoundEntry, RoundListItem, RoundListOutput, RoundTodos, RoundUsage, SidechainTrajectory, ThinkingMetadata, ToolCall } from './round-types.ts';
+import * as fs from 'node:fs/promises';
+import { readJsonlLines, type JsonlLine } from './jsonl-reader.ts';
+import type { Redactor } from './redaction.ts';
+import type { Anonymizer } from './anonymizer.ts';
+import { pairToolCalls, summarizeToolCalls } from './tool-calls.ts';
+import { createSegmenter } from './segmenters.ts';
+import { computeUsage } from './usage.ts';
+import { createTodoTracker } from './todo-timeline.ts';
+
+export interface SystemEntryInput {
+  type: string;
+  uuid?: string;
+  message?: {
+    role: string;
+    content: string;
+  };
+  parentUuid?: string | null;
+  isSidechain?: boolean;
+  userType?: string;
+  cwd?: string;
+  sessionId?: string;
+  version?: string;
+  gitBranch?: string;
+  timestamp?: string;
+  thinkingMetadata?: ThinkingMetadata;
+  todos?: unknown[];
+  [key: string]: unknown;
+}
+
+// Fields that should be extracted from actual session entries
+const CONTEXT_FIELDS = [
+  'cwd',
+  'sessionId',
+  'version',
+  'gitBranch',
+  'userType',
+  'isSidechain',
+  'thinkingMetadata',
+  'todos',
+] as const;
+
+function pickContextFields(entry: ClaudeRawEntry): Partial<ClaudeRawEntry> {
+  const context: Partial<ClaudeRawEntry> = {};
+
+  for (const field of CONTEXT_FIELDS) {
+    if (field in entry && entry[field] !== undefined) {
+      context[field] = entry[field];
+    }
+  }
+
+  return context;
+}
+
+export function extractContextFields(entries: ClaudeRawEntry[]): Partial<ClaudeRawEntry> {
+  if (entries.length === 0) {
+    return {};
+  }
+
+  // Find first entry with context fields (usually the first user or system entry)
+  for (const entry of entries) {
+    const context = pickContextFields(entry);
+
+    // If we found at least one context field, return it
+    if (Object.keys(context).length > 0) {
+      return context;
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Read context fields from a session file, stopping at the first entry that has any
+ */
+export async function readContextFields(filePath: string): Promise<Partial<ClaudeRawEntry>> {
+  for await (const entry of streamSessionFile(filePath)) {
+    const context = pickContextFields(entry);
+    if (Object.keys(context).length > 0) {
+      return context;
+    }
+  }
+  return {};
+}
+
+export async function loadSystemEntries(filePath: string, contextFields?: Partial<ClaudeRawEntry>): Promise<ClaudeRawEntry[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in system file: ${filePath}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(`System file must contain a JSON array: ${filePath}`);
+  }
+
+  if (parsed.length === 0) {
+    return [];
+  }
+
+  const entries: ClaudeRawEntry[] = [];
+
+  for (const item of parsed) {
+    if (typeof item !== 'object' || item === null) {
+      throw new Error(`Invalid entry in system file: ${filePath}`);
+    }
+
+    const entry = { ...item } as SystemEntryInput;
+
+    // Merge context fields from actual session (override system file values)
+    if (contextFields) {
+      for (const field of CONTEXT_FIELDS) {
+        if (field in contextFields) {
+          (entry as any)[field] = contextFields[field];
+        }
+      }
+    }
+
+    // Augment with uuid if missing
+    if (!entry.uuid) {
+      entry.uuid = crypto.randomUUID();
+    }
+
+    // Ensure type is set
+    if (!entry.type) {
+      entry.type = 'system';
+    }
+
+    entries.push(entry as ClaudeRawEntry);
+  }
+
+  return entries;
+}
+
+export function formatParseDiagnostic(diagnostic: ParseDiagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line} (byte ${diagnostic.byteOffset}): ${diagnostic.error}${diagnostic.repaired ? ' [repaired]' : ''}`;
+}
+
+/**
+ * Try to salvage a JSON object whose line was cut off mid-write.
+ * An unterminated string value is closed where it stops; otherwise the line is cut back
+ * to the last complete value. Any open objects/arrays are then closed.
+ */
+function repairTruncatedJson(text: string): ClaudeRawEntry | null {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringIsKey = false;
+  let expectKey = false;
+  let cut = -1;
+  let cutClosers: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        if (!stringIsKey) {
+          cut = i + 1;
+          cutClosers = [...closers];
+        }
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      stringIsKey = expectKey && closers[closers.length - 1] === '}';
+    } else if (ch === '{') {
+      closers.push('}');
+      expectKey = true;
+    } else if (ch === '[') {
+      closers.push(']');
+      expectKey = false;
+    } else if (ch === '}' || ch === ']') {
+      closers.pop();
+      expectKey = false;
+      cut = i + 1;
+      cutClosers = [...closers];
+    } else if (ch === ',') {
+      expectKey = closers[closers.length - 1] === '}';
+      cut = i;
+      cutClosers = [...closers];
+    } else if (ch === ':') {
+      expectKey = false;
+    }
+  }
+
+  const candidates: string[] = [];
+  if (inString && !stringIsKey) {
+    // Keep the partial string value, dropping a dangling escape character
+    const body = escaped ? text.slice(0, -1) : text;
+    candidates.push(body + '"' + [...closers].reverse().join(''));
+  }
+  if (cut > 0) {
+    candidates.push(text.slice(0, cut) + [...cutClosers].reverse().join(''));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+        return parsed as ClaudeRawEntry;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+function parseJSONL(line: JsonlLine, filePath: string, options: ParseOptions): ClaudeRawEntry | null {
+  try {
+    return JSON.parse(line.text) as ClaudeRawEntry;
+  } catch (error) {
+    const diagnostic: ParseDiagnostic = {
+      file: filePath,
+      line: line.lineNumber,
+      byteOffset: line.byteOffset,
+      error: (error as Error).message,
+    };
+
+    // Only a trailing line without a newline can be a partial write
+    if (options.repair && !line.terminated) {
+      const repaired = repairTruncatedJson(line.text);
+      if (repaired) {
+        diagnostic.repaired = true;
+        options.diagnostics?.push(diagnostic);
+        return repaired;
+      }
+    }
+
+    if (options.strict) {
+      throw new Error(`Malformed JSON line at ${formatParseDiagnostic(diagnostic)}`);
+    }
+
+    options.diagnostics?.push(diagnostic);
+    return null;
+  }
+}
+
+function getDisplayContent(entry: ClaudeRawEntry): string | undefined {
+  if (entry.type === 'user' || entry.type === 'assistant') {
+    const content = entry.message?.content;
+    if (typeof content === 'string') {
+      // Extract command if present
+      const commandMatch = content.match(/<command-name>(\/[^<]+)<\/command-name>/);
+      if (commandMatch) {
+        const argsMatch = content.match(/<command-args>([^<]*)<\/command-args>/);
+        const args = argsMatch ? argsMatch[1].trim() : '';
+        return `${commandMatch[1]}${args ? ' ' + args.substring(0, 50) + (args.length > 50 ? '...' : '') : ''}`;
+      }
+      // Return first 100 chars of content
+      return content.substring(0, 100) + (content.length > 100 ? '...' : '');
+    }
+    if (Array.isArray(content)) {
+      // Find text content or tool_result content
+      const textItem = content.find((item: any) => item.type === 'text');
+      if (textItem?.text) {
+        return textItem.text.substring(0, 100) + (textItem.text.length > 100 ? '...' : '');
+      }
+      const toolResultItem = content.find((item: any) => item.type === 'tool_result');
+      if (toolResultItem?.content) {
+        const contentStr = String(toolResultItem.content);
+        return contentStr.substring(0, 100) + (contentStr.length > 100 ? '...' : '');
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Stream entries from a session file one line at a time.
+ * Malformed lines are skipped and recorded in options.diagnostics, unless options.strict is set.
+ * With an anonymizer the file is read twice: first to learn every identity, then to rewrite.
+ */
+export async function* streamSessionFile(filePath: string, options: ParseOptions = {}): AsyncGenerator<ClaudeRawEntry> {
+  if (options.anonymizer) {
+    for await (const line of readJsonlLines(filePath)) {
+      // Malformed lines are reported by the second pass
+      const parsed = parseJSONL(line, filePath, { repair: options.repair });
+      if (parsed) {
+        options.anonymizer.learnEntry(parsed);
+      }
+    }
+  }
+  for await (const line of readJsonlLines(filePath)) {
+    const parsed = parseJSONL(line, filePath, options);
+    if (parsed) {
+      // Anonymize first, so redaction does not report what was already pseudonymized
+      const anonymized = options.anonymizer ? options.anonymizer.anonymizeEntry(parsed) : parsed;
+      yield options.redactor ? options.redactor.redactEntry(anonymized, { file: filePath, line: line.lineNumber }) : anonymized;
+    }
+  }
+}
+
+export async function readSessionFile(filePath: string, options: ParseOptions = {}): Promise<ClaudeRawEntry[]> {
+  const entries: ClaudeRawEntry[] = [];
+  for await (const entry of streamSessionFile(filePath, options)) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+interface PendingTask {
+  id: string;
+  prompt?: string;
+  description?: string;
+  subagentType?: string;
+}
+
+/**
+ * Collect Task (subagent) tool_use calls from an assistant entry
+ */
+function getTaskToolUses(entry: ClaudeRawEntry): PendingTask[] {
+  const content = entry.message?.content;
+  if (entry.type !== 'assistant' || !Array.isArray(content)) {
+    return [];
+  }
+  return (content as Array<Record<string, unknown>>)
+    .filter((item) => item.type === 'tool_use' && (item.name === 'Task' || item.name === 'Agent') && typeof item.id === 'string')
+    .map((item) => {
+      const input = (item.input ?? {}) as Record<string, unknown>;
+      return {
+        id: item.id as string,
+        prompt: typeof input.prompt === 'string' ? input.prompt : undefined,
+        description: typeof input.description === 'string' ? input.description : undefined,
+        subagentType: typeof input.subagent_type === 'string' ? input.subagent_type : undefined,
+      };
+    });
+}
+
+function getPromptText(entry: ClaudeRawEntry): string {
+  const content = entry.message?.content;
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.filter((item) => item.type === 'text').map((item) => item.text).join('\n');
+  }
+  return '';
+}
+
+function toRoundEntry(entry: ClaudeRawEntry): RoundEntry {
+  return {
+    type: entry.type,
+    uuid: entry.uuid || crypto.randomUUID(),
+    parentUuid: entry.parentUuid ?? null,
+    timestamp: entry.timestamp || new Date().toISOString(),
+    rawContent: JSON.stringify(entry),
+    displayContent: getDisplayContent(entry),
+  };
+}
+
+function getAssistantMessageId(entry: ClaudeRawEntry): string | undefined {
+  const message = entry.message as Record<string, unknown> | undefined;
+  return entry.type === 'assistant' && typeof message?.id === 'string' ? message.id : undefined;
+}
+
+/**
+ * Merge streamed assistant chunks into canonical messages.
+ *
+ * Claude Code writes one line per content block, each repeating the same message.id.
+ * Chunks are merged into the first one (keeping its uuid, parentUuid and timestamp) with
+ * their content blocks in order; usage and stop_reason come from the last chunk, which
+ * carries the final values. Entries whose parent was merged away are re-parented onto
+ * the merged message. `aliases` maps each merged-away uuid to the uuid that replaced it.
+ */
+function mergeChunks(entries: ClaudeRawEntry[]): { entries: ClaudeRawEntry[]; aliases: Map<string, string> } {
+  const merged: ClaudeRawEntry[] = [];
+  const byMessageId = new Map<string, ClaudeRawEntry>();
+  const aliases = new Map<string, string>();
+  const toBlocks = (content: unknown) => (Array.isArray(content) ? content : typeof content === 'string' && content ? [{ type: 'text', text: content }] : []);
+
+  for (const entry of entries) {
+    const messageId = getAssistantMessageId(entry);
+    const target = messageId ? byMessageId.get(messageId) : undefined;
+
+    if (target?.message && entry.message) {
+      const chunk = entry.message as Record<string, unknown>;
+      Object.assign(target.message, {
+        content: [...toBlocks(target.message.content), ...toBlocks(chunk.content)],
+        ...(chunk.usage !== undefined ? { usage: chunk.usage } : {}),
+        ...(chunk.stop_reason != null ? { stop_reason: chunk.stop_reason } : {}),
+        ...(chunk.stop_sequence != null ? { stop_sequence: chunk.stop_sequence } : {}),
+      });
+      if (entry.uuid && target.uuid) {
+        aliases.set(entry.uuid, target.uuid);
+      }
+      continue;
+    }
+
+    const copy: ClaudeRawEntry = { ...entry, message: entry.message ? { ...entry.message } : entry.message };
+    if (copy.parentUuid && aliases.has(copy.parentUuid)) {
+      copy.parentUuid = aliases.get(copy.parentUuid);
+    }
+    if (messageId) {
+      byMessageId.set(messageId, copy);
+    }
+    merged.push(copy);
+  }
+
+  return { entries: merged, aliases };
+}
+
+/**
+ * Merge streamed assistant chunks sharing a message.id into one entry per API turn
+ */
+export function mergeMessageChunks(entries: ClaudeRawEntry[]): ClaudeRawEntry[] {
+  return mergeChunks(entries).entries;
+}
+
+/**
+ * Accumulates entries into rounds, handing back each round as soon as the
+ * next one starts so callers never need the whole session in memory.
+ *
+ * Where a round starts is decided by the segment strategy (options.segment, see
+ * segmenters.ts). The default "user-turn" strategy starts a round when:
+ * - A user message is NOT a tool_result (not system-generated)
+ * - A user message is NOT isMeta (not command metadata)
+ * - A user message is NOT an interrupt (not "[Request interrupted by user]")
+ * Sidechain entries never start rounds, whatever the strategy.
+ *
+ * This handles cases where user messages have parentUuid pointing to other user messages
+ * (like interrupts), but they still represent a new round/interaction.
+ *
+ * Sidechain runs are grouped by their root entry and matched to the Task tool_use
+ * whose prompt they answer (falling back to the oldest unmatched Task in the round).
+ */
+function createRoundAccumulator(options: ExtractOptions = {}) {
+  const sidechainMode = options.sidechains ?? 'separate';
+  const segmenter = createSegmenter(options.segment);
+  let previousEntry: ClaudeRawEntry | null = null;
+  let currentRoundEntries: RoundEntry[] = [];
+  let currentRawEntries: ClaudeRawEntry[] = [];
+  let currentSidechains: SidechainTrajectory[] = [];
+  let sidechainRawEntries = new Map<SidechainTrajectory, ClaudeRawEntry[]>();
+  let pendingTasks: PendingTask[] = [];
+  const sidechainByUuid = new Map<string, SidechainTrajectory>();
+  const todoTracker = createTodoTracker();
+  let roundNumber = 0;
+
+  function addSidechainEntry(entry: ClaudeRawEntry, roundEntry: RoundEntry): void {
+    let sidechain = entry.parentUuid ? sidechainByUuid.get(entry.parentUuid) : undefined;
+
+    // Runs are looked up in the current round only. A subagent still running when a new round
+    // started (a prompt typed while a Task runs, background agents, a round cut mid-Task)
+    // continues in a new run of the current round, under the Task of its earlier run.
+    let continued: SidechainTrajectory | undefined;
+    if (sidechain && !sidechainRawEntries.has(sidechain)) {
+      continued = sidechain;
+      sidechain = undefined;
+    }
+
+    if (!sidechain) {
+      let task: PendingTask | undefined;
+      if (!continued) {
+        const prompt = getPromptText(entry).trim();
+        task = pendingTasks.find((t) => t.prompt?.trim() === prompt) ?? pendingTasks[0];
+        if (task) {
+          pendingTasks = pendingTasks.filter((t) => t !== task);
+        }
+      }
+      sidechain = {
+        toolUseId: continued ? continued.toolUseId : (task?.id ?? null),
+        description: continued ? continued.description : task?.description,
+        subagentType: continued ? continued.subagentType : task?.subagentType,
+        startTimestamp: roundEntry.timestamp,
+        endTimestamp: roundEntry.timestamp,
+        summary: roundEntry.displayContent || 'Subagent',
+        entries: [],
+        toolCalls: [],
+      };
+      currentSidechains.push(sidechain);
+      sidechainRawEntries.set(sidechain, []);
+    }
+
+    sidechain.entries.push(roundEntry);
+    sidechainRawEntries.get(sidechain)!.push(entry);
+    sidechain.endTimestamp = roundEntry.timestamp;
+    if (entry.uuid) {
+      sidechainByUuid.set(entry.uuid, sidechain);
+    }
+  }
+
+  // Tool calls are paired on the raw chunks so their timestamps stay exact, then merged if requested
+  function buildEntries(rawEntries: ClaudeRawEntry[], roundEntries: RoundEntry[]): { entries: RoundEntry[]; toolCalls: ToolCall[] } {
+    const toolCalls = pairToolCalls(rawEntries);
+    if (!options.normalize) {
+      return { entries: roundEntries, toolCalls };
+    }
+    const { entries, aliases } = mergeChunks(rawEntries);
+    const resolve = (uuid: string | null) => (uuid && aliases.get(uuid)) || uuid;
+    for (const call of toolCalls) {
+      call.toolUseUuid = resolve(call.toolUseUuid);
+      call.toolResultUuid = resolve(call.toolResultUuid);
+    }
+    return { entries: entries.map(toRoundEntry), toolCalls };
+  }
+
+  function completeRound(): Round {
+    const roundRawEntries = [...currentRawEntries];
+    for (const sidechain of currentSidechains) {
+      const rawEntries = sidechainRawEntries.get(sidechain)!;
+      const { entries, toolCalls } = buildEntries(rawEntries, sidechain.entries);
+      sidechain.entries = entries;
+      sidechain.toolCalls = toolCalls;
+      roundRawEntries.push(...rawEntries);
+    }
+    // Subagent tokens are billed to the round that spawned them
+    const usage = computeUsage(roundRawEntries, options.pricing);
+    const { entries, toolCalls } = buildEntries(currentRawEntries, currentRoundEntries);
+    const todos = todoTracker.addRound(roundNumber, currentRawEntries, toolCalls);
+    const completed = createRound(roundNumber, entries, toolCalls, usage, currentSidechains, todos);
+    roundNumber++;
+    currentRoundEntries = [];
+    currentRawEntries = [];
+    currentSidechains = [];
+    sidechainRawEntries = new Map();
+    pendingTasks = [];
+    return completed;
+  }
+
+  return {
+    push(entry: ClaudeRawEntry): Round | null {
+      if (entry.isSidechain) {
+        if (sidechainMode === 'drop') {
+          return null;
+        }
+        if (sidechainMode === 'separate') {
+          addSidechainEntry(entry, toRoundEntry(entry));
+          return null;
+        }
+      }
+
+      const roundEntry = toRoundEntry(entry);
+
+      // Subagent prompts never start rounds; everything else is up to the segmenter
+      let isNewRoundStart = false;
+      if (!entry.isSidechain) {
+        isNewRoundStart = segmenter.isRoundStart(entry, previousEntry);
+        previousEntry = entry;
+      }
+
+      let completed: Round | null = null;
+      if (isNewRoundStart && currentRoundEntries.length > 0) {
+        completed = completeRound();
+      }
+
+      // Add to current round (or collect entries before the first user message, e.g. summaries)
+      currentRoundEntries.push(roundEntry);
+      currentRawEntries.push(entry);
+      pendingTasks.push(...getTaskToolUses(entry));
+      return completed;
+    },
+
+    flush(): Round | null {
+      if (currentRoundEntries.length === 0) {
+        return null;
+      }
+      return completeRound();
+    },
+  };
+}
+
+/**
+ * Extract rounds from session entries.
+ */
+export function extractRounds(entries: ClaudeRawEntry[], options: ExtractOptions = {}): Round[] {
+  const rounds: Round[] = [];
+  const accumulator = createRoundAccumulator(options);
+
+  for (const entry of entries) {
+    const round = accumulator.push(entry);
+    if (round) {
+      rounds.push(round);
+    }
+  }
+
+  // Don't forget the last round
+  const last = accumulator.flush();
+  if (last) {
+    rounds.push(last);
+  }
+
+  return rounds;
+}
+
+/**
+ * Extract rounds incrementally from a stream of entries (see streamSessionFile)
+ */
+export async function* streamRounds(entries: AsyncIterable<ClaudeRawEntry>, options: ExtractOptions = {}): AsyncGenerator<Round> {
+  const accumulator = createRoundAccumulator(options);
+
+  for await (const entry of entries) {
+    const round = accumulator.push(entry);
+    if (round) {
+      yield round;
+    }
+  }
+
+  const last = accumulator.flush();
+  if (last) {
+    yield last;
+  }
+}
+
+/**
+ * Stream a session file and collect all of its rounds
+ */
+export async function readSessionRounds(filePath: string, options: ParseOptions = {}, extractOptions: ExtractOptions = {}): Promise<Round[]> {
+  const rounds: Round[] = [];
+  for await (const round of streamRounds(streamSessionFile(filePath, options), extractOptions)) {
+    rounds.push(round);
+  }
+  return rounds;
+}
+
+function createRound(roundNumber: number, entries: RoundEntry[], toolCalls: ToolCall[], usage: RoundUsage, sidechains: SidechainTrajectory[] = [], todos: RoundTodos | null = null): Round {
+  const firstEntry = entries[0];
+  const lastEntry = entries[entries.length - 1];
+
+  // Find the first meaningful user message for summary
+  let summaryEntry = firstEntry;
+  for (const entry of entries) {
+    if (entry.type === 'user' && entry.displayContent && !entry.displayContent.startsWith('[')) {
+      summaryEntry = entry;
+      break;
+    }
+  }
+
+  const summary = summaryEntry.displayContent || `Round ${roundNumber}`;
+
+  return {
+    roundNumber,
+    startUuid: firstEntry.uuid,
+    startTimestamp: firstEntry.timestamp,
+    endTimestamp: lastEntry.timestamp,
+    entries,
+    summary,
+    toolCalls,
+    usage,
+    ...(sidechains.length > 0 ? { sidechains } : {}),
+    ...(todos ? { todos } : {}),
+  };
+}
+
+export function toRoundListItem(round: Round): RoundListItem {
+  return {
+    number: round.roundNumber,
+    summary: round.summary,
+    entryCount: round.entries.length,
+    startTimestamp: round.startTimestamp,
+    toolCalls: summarizeToolCalls(round.toolCalls ?? []),
+    usage: round.usage,
+    sidechains: (round.sidechains ?? []).map((sidechain) => ({
+      description: sidechain.description || sidechain.summary,
+      entryCount: sidechain.entries.length,
+    })),
+  };
+}
+
+export function listRounds(rounds: Round[], filePath: string): RoundListOutput {
+  return {
+    filePath,
+    totalRounds: rounds.length,
+    rounds: rounds.map(toRoundListItem),
+  };
+}
+
+export function extractRound(rounds: Round[], roundNumber: number, systemEntries?: ClaudeRawEntry[]): string | null {
+  const round = rounds.find((r) => r.roundNumber === roundNumber);
+  if (!round) {
+    return null;
+  }
+  const lines: string[] = [];
+
+  // Prepend system entries
+  if (systemEntries && systemEntries.length > 0) {
+    for (const entry of systemEntries) {
+      lines.push(JSON.stringify(entry));
+    }
+  }
+
+  // Add round entries
+  for (const e of round.entries) {
+    lines.push(e.rawContent);
+  }
+
+  return lines.join('\n');
+}
+
+export function prependSystemEntries(rounds: Round[], systemEntries: ClaudeRawEntry[]): Round[] {
+  if (systemEntries.length === 0) {
+    return rounds;
+  }
+
+  return rounds.map((round) => {
+    const systemRoundEntries: RoundEntry[] = systemEntries.map((entry) => {
+      let displayContent: string | undefined;
+      const content = entry.message?.content;
+      if (typeof content === 'string') {
+        displayContent = content.substring(0, 100);
+      } else if (Array.isArray(content)) {
+        const textItem = content.find((item: any) => item.type === 'text');
+        if (textItem?.text) {
+          displayContent = textItem.text.substring(0, 100);
+        }
+      }
+
+      return {
+        type: entry.type,
+        uuid: entry.uuid || crypto.randomUUID(),
+        parentUuid: null,
+        timestamp: entry.timestamp || new Date().toISOString(),
+        rawContent: JSON.stringify(entry),
+        displayContent,
+      };
+    });
+
+    return {
+      ...round,
+      entries: [...systemRoundEntries, ...round.entries],
+    };
+  });
+}
+
+// Rewrites the raw entries and free-text fields of a round (redaction, anonymization)
+interface RoundRewriter {
+  entry(entry: ClaudeRawEntry): ClaudeRawEntry;
+  text(text: string, field: string, uuid?: string): string;
+}
+
+function rewriteRound(round: Round, rewriter: RoundRewriter): Round {
+  const rewriteEntries = (entries: RoundEntry[]) => {
+    const raw = entries.map((entry) => rewriter.entry(JSON.parse(entry.rawContent) as ClaudeRawEntry));
+    const rewritten = entries.map((entry, i): RoundEntry => ({
+      ...entry,
+      rawContent: JSON.stringify(raw[i]),
+      displayContent: entry.displayContent !== undefined ? getDisplayContent(raw[i]) : undefined,
+    }));
+    return { raw, entries: rewritten };
+  };
+
+  const rewriteTodo = <T extends { id: string; content: string }>(todo: T, uuid?: string): T => {
+    const content = rewriter.text(todo.content, 'todo', uuid);
+    // Items without an id of their own are identified by their content
+    return { ...todo, id: todo.id === todo.content ? content : todo.id, content };
+  };
+
+  const main = rewriteEntries(round.entries);
+  return {
+    ...round,
+    entries: main.entries,
+    summary: rewriter.text(round.summary, 'summary', round.startUuid),
+    toolCalls: pairToolCalls(main.raw),
+    sidechains: round.sidechains?.map((sidechain) => {
+      const { raw, entries } = rewriteEntries(sidechain.entries);
+      return {
+        ...sidechain,
+        description: sidechain.description && rewriter.text(sidechain.description, 'description'),
+        summary: rewriter.text(sidechain.summary, 'summary'),
+        entries,
+        toolCalls: pairToolCalls(raw),
+      };
+    }),
+    ...(round.todos
+      ? {
+          todos: {
+            events: round.todos.events.map((event) => rewriteTodo(event, event.uuid ?? undefined)),
+            items: round.todos.items.map((item) => {
+              const rewritten = rewriteTodo(item);
+              return item.activeForm !== undefined ? { ...rewritten, activeForm: rewriter.text(item.activeForm, 'todo') } : rewritten;
+            }),
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Redact a round loaded from a JSON export (.jsonl input is redacted as it is read).
+ * Raw entries are parsed so detectors see unescaped text, and tool calls are paired
+ * again from the redacted entries.
+ */
+export function redactRound(round: Round, redactor: Redactor, file?: string): Round {
+  return rewriteRound(round, {
+    entry: (entry) => redactor.redactEntry(entry, { file }),
+    text: (text, field, uuid) => redactor.redactText(text, { file, uuid, field }),
+  });
+}
+
+/**
+ * Anonymize rounds loaded from a JSON export (.jsonl input is anonymized as it is read).
+ * Identities are learned from every round before any is rewritten.
+ */
+export function anonymizeRounds(rounds: Round[], anonymizer: Anonymizer): Round[] {
+  for (const round of rounds) {
+    for (const entry of [...round.entries, ...(round.sidechains ?? []).flatMap((sidechain) => sidechain.entries)]) {
+      anonymizer.learnEntry(JSON.parse(entry.rawContent));
+    }
+  }
+  return rounds.map((round) =>
+    rewriteRound(round, {
+      entry: (entry) => anonymizer.anonymizeEntry(entry),
+      text: (text) => anonymizer.anonymizeText(text),
+    })
+  );
+}
+
+/**
+ * Check if a single entry has a non-empty "thinking" field in its message content,
+ * or a redacted_thinking block (thinking the API returned encrypted)
+ */
+export function entryHasThinking(entry: ClaudeRawEntry): boolean {
+  const content = entry.message?.content;
+  if (Array.isArray(content)) {
+    for (const item of content) {
+      if (typeof item === 'object' && item !== null && 'thinking' in item) {
+        const thinkingValue = (item as any).thinking;
+        if (thinkingValue && typeof thinkingValue === 'string' && thinkingValue.trim() !== '') {
+          return true;
+        }
+      }
+      if (typeof item === 'object' && item !== null && item.type === 'redacted_thinking' && 'data' in item && item.data) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Check if entries contain thinking metadata
+ * Only returns true if any message content has a non-empty "thinking" field or redacted thinking
+ */
+export function hasThinking(entries: ClaudeRawEntry[]): boolean {
+  return entries.some(entryHasThinking);
+}
+
+/**
+ * Check if any entry in a round has thinking
+ */
+export function roundHasThinking(round: Round): boolean {
+  return round.entries.some((entry) => entryHasThinking(JSON.parse(entry.rawContent) as ClaudeRawEntry));
+}
+
+/**
+ * Extract rounds that contain thinking from a list of rounds
+ */
+export function extractRoundsWithThinking(rounds: Round[]): Round[] {
+  return rounds.filter(roundHasThinking);
+}
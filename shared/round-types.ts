@@ -0,0 +1,200 @@
+// Types for round extraction, shared by the CLI and the server
+import type { Redactor } from './redaction.ts';
+import type { Anonymizer } from './anonymizer.ts';
+
+export interface ThinkingMetadata {
+  level?: string;
+  disabled?: boolean;
+  triggers?: unknown[];
+}
+
+export interface ClaudeRawEntry {
+  type: string;
+  uuid?: string;
+  parentUuid?: string | null;
+  timestamp?: string;
+  message?: {
+    role: string;
+    content: string | Array<{ type: string; text: string }>;
+  };
+  isMeta?: boolean;
+  isCompactSummary?: boolean; // Set on the summary message that opens a compacted or continued session
+  thinkingMetadata?: ThinkingMetadata;
+  [key: string]: unknown;
+}
+
+export interface ParseDiagnostic {
+  file: string;
+  line: number;
+  byteOffset: number;
+  error: string;
+  repaired?: boolean;
+}
+
+export interface ParseOptions {
+  strict?: boolean; // Throw on the first malformed line instead of skipping it
+  repair?: boolean; // Salvage a partially written trailing line
+  diagnostics?: ParseDiagnostic[]; // Collects one diagnostic per malformed line
+  redactor?: Redactor; // Redact secrets from each entry as it is read
+  anonymizer?: Anonymizer; // Replace paths, user and host names and session ids as entries are read
+}
+
+// The session file an entry was read from, for trajectories stitched from several files
+export interface EntrySource {
+  file: string;
+  sessionId: string | null;
+}
+
+export interface RoundEntry {
+  type: string;
+  uuid: string;
+  parentUuid: string | null;
+  timestamp: string;
+  rawContent: string;
+  displayContent?: string;
+  source?: EntrySource; // Set by session-stitch.ts
+}
+
+// completed: tool_use answered by a tool_result; unanswered: no result; orphaned: result without a tool_use
+export type ToolCallStatus = 'completed' | 'unanswered' | 'orphaned';
+
+/**
+ * A tool_use paired with its tool_result by id
+ */
+export interface ToolCall {
+  id: string;
+  name: string | null; // null for orphaned results
+  input: unknown;
+  output: string | null; // Text of the tool_result content, null if unanswered
+  isError: boolean;
+  status: ToolCallStatus;
+  startTimestamp: string | null;
+  endTimestamp: string | null;
+  latencyMs: number | null;
+  toolUseUuid: string | null;
+  toolResultUuid: string | null;
+}
+
+/**
+ * A subagent run (isSidechain entries) spawned by a Task tool_use
+ */
+export interface SidechainTrajectory {
+  toolUseId: string | null; // Spawning Task tool_use, null if it could not be matched
+  description?: string;
+  subagentType?: string;
+  startTimestamp: string;
+  endTimestamp: string;
+  summary: string;
+  entries: RoundEntry[];
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Token counts summed over the assistant messages of a round
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface RoundUsage extends TokenUsage {
+  models: string[];
+  estimatedCost: number | null; // USD, null when none of the round's models has a price
+  unpricedModels: string[]; // Models with tokens but no entry in the pricing table
+}
+
+// Prices in USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export interface PricingTable {
+  models: Record<string, ModelPricing>; // Keyed by model id prefix, e.g. "claude-sonnet-4-5"
+}
+
+// How sidechain entries are treated: nested under their Task, kept in the parent round, or removed
+export type SidechainMode = 'separate' | 'inline' | 'drop';
+
+export interface ExtractOptions {
+  sidechains?: SidechainMode; // Default: 'separate'
+  segment?: string; // Segmentation strategy, e.g. "user-turn" (default) or "time-gap=30" (see segmenters.ts)
+  pricing?: PricingTable; // Used to estimate the cost of each round
+  normalize?: boolean; // Merge streamed assistant chunks sharing a message.id into one entry
+}
+
+export type TodoStatus = 'pending' | 'in_progress' | 'completed';
+
+export interface TodoItem {
+  id: string; // The item's own id, or its content when it has none
+  content: string;
+  status: TodoStatus;
+  activeForm?: string;
+}
+
+/**
+ * A change to the agent's todo list:
+ * created: the item appeared in the list
+ * in_progress, completed: the item moved to that status
+ * reopened: a completed item was taken up again, or a started one went back to pending
+ * dropped: the item left the list without being completed
+ */
+export type TodoEventType = 'created' | 'in_progress' | 'completed' | 'reopened' | 'dropped';
+
+export interface TodoEvent {
+  type: TodoEventType;
+  id: string;
+  content: string;
+  roundNumber: number;
+  timestamp: string | null;
+  uuid: string | null; // Entry that wrote the list
+}
+
+/**
+ * What a round did to the todo list, and the list as the round left it
+ */
+export interface RoundTodos {
+  events: TodoEvent[];
+  items: TodoItem[];
+}
+
+export interface Round {
+  roundNumber: number;
+  startUuid: string;
+  startTimestamp: string;
+  endTimestamp: string;
+  entries: RoundEntry[];
+  summary: string;
+  toolCalls: ToolCall[];
+  usage: RoundUsage;
+  sidechains?: SidechainTrajectory[];
+  todos?: RoundTodos; // Set from the first round in which the main agent wrote a todo list
+}
+
+export interface RoundListItem {
+  number: number;
+  summary: string;
+  entryCount: number;
+  startTimestamp: string;
+  toolCalls: {
+    total: number;
+    errors: number;
+    unanswered: number;
+    orphaned: number;
+  };
+  usage: RoundUsage;
+  sidechains: Array<{
+    description: string;
+    entryCount: number;
+  }>;
+}
+
+export interface RoundListOutput {
+  filePath: string;
+  totalRounds: number;
+  rounds: RoundListItem[];
+}
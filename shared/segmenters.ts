@@ -0,0 +1,251 @@
+// Round segmentation strategies: where a session is cut into rounds
+import type { ClaudeRawEntry } from './round-types.ts';
+
+/**
+ * Decides where rounds start. One instance is created per session, so
+ * implementations may keep state between calls.
+ */
+export interface Segmenter {
+  /**
+   * Called for every main-chain (non-sidechain) entry in file order.
+   * Return true if the entry starts a new round.
+   */
+  isRoundStart(entry: ClaudeRawEntry, previous: ClaudeRawEntry | null): boolean;
+}
+
+export interface SegmentStrategy {
+  name: string;
+  usage: string; // How the strategy is written on the command line, e.g. "time-gap=<minutes>"
+  description: string;
+  /**
+   * Create a segmenter for one session. `argument` is the text after "=" in the
+   * --segment value; throw an Error if it is missing or invalid.
+   */
+  create(argument: string | undefined): Segmenter;
+}
+
+export const DEFAULT_SEGMENT_STRATEGY = 'user-turn';
+
+// Phrases Claude Code uses when a session continues from a summarized conversation
+const CONTINUATION_PATTERNS = [
+  'this session is being continued from a previous conversation',
+  'session continued from previous conversation',
+  'continuing from previous conversation',
+  'continued from:',
+  'previous session:',
+];
+
+/**
+ * Check if a user message is a tool result (should not start a new round)
+ */
+function isToolResult(entry: ClaudeRawEntry): boolean {
+  if (entry.type === 'user' && Array.isArray(entry.message?.content)) {
+    // Check if the content contains tool_result items (or anything else answering a tool_use)
+    return entry.message.content.some((item: any) => item.type === 'tool_result' || item.tool_use_id);
+  }
+  return false;
+}
+
+/**
+ * Text of a message: string content, or its text blocks joined by spaces
+ * (images, files and tool blocks contribute nothing)
+ */
+export function getMessageText(entry: ClaudeRawEntry): string {
+  const content = entry.message?.content;
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return (content as Array<Record<string, unknown>>)
+      .filter((item) => item.type === 'text')
+      .map((item) => (typeof item.text === 'string' ? item.text : ''))
+      .join(' ');
+  }
+  return '';
+}
+
+/**
+ * Check if a user message is the summary injected when a session is continued.
+ * These appear mid-trajectory, so they must not start a round. Claude Code flags them
+ * with isCompactSummary; older versions did not, so a message with a continuation phrase
+ * and more than 300 words counts too. Long prompts without one are real prompts.
+ */
+export function isSessionSummaryMessage(entry: ClaudeRawEntry): boolean {
+  if (entry.isCompactSummary === true) {
+    return true;
+  }
+  const text = getMessageText(entry);
+  const lower = text.toLowerCase();
+  if (!CONTINUATION_PATTERNS.some((pattern) => lower.includes(pattern))) {
+    return false;
+  }
+  return text.split(/\s+/).filter((word) => word !== '').length > 300;
+}
+
+/**
+ * Check if a user message is an interrupt/interruption message
+ * These have content like "[Request interrupted by user for tool use]"
+ */
+function isInterruptMessage(entry: ClaudeRawEntry): boolean {
+  if (entry.type === 'user' && Array.isArray(entry.message?.content)) {
+    const textItem = entry.message.content.find((item: any) => item.type === 'text');
+    if (textItem?.text) {
+      return textItem.text.includes('[Request interrupted by user');
+    }
+  }
+  return false;
+}
+
+/**
+ * Check if an entry is a prompt typed by the user, as opposed to tool results,
+ * interrupts, command metadata, continued-session summaries and image-only messages
+ * that are also recorded as user messages. This is the one definition of a valid
+ * trajectory start, shared by round extraction, branches and `query`.
+ */
+export function isUserPrompt(entry: ClaudeRawEntry): boolean {
+  return (
+    entry.type === 'user' &&
+    !entry.isMeta &&
+    !isToolResult(entry) &&
+    !isInterruptMessage(entry) &&
+    getMessageText(entry).trim() !== '' &&
+    !isSessionSummaryMessage(entry)
+  );
+}
+
+/**
+ * Check if a user prompt invokes a slash command (e.g. "/review")
+ */
+function isSlashCommand(entry: ClaudeRawEntry): boolean {
+  const content = entry.message?.content;
+  return typeof content === 'string' && /<command-name>\/[^<]+<\/command-name>/.test(content);
+}
+
+/**
+ * Check if an assistant entry writes a todo list in which every item is completed
+ */
+function completesTodoList(entry: ClaudeRawEntry): boolean {
+  const content = entry.message?.content;
+  if (entry.type !== 'assistant' || !Array.isArray(content)) {
+    return false;
+  }
+  return (content as Array<Record<string, unknown>>).some((item) => {
+    const input = item.type === 'tool_use' && item.name === 'TodoWrite' ? (item.input as Record<string, unknown> | undefined) : undefined;
+    const todos = input?.todos;
+    return Array.isArray(todos) && todos.length > 0 && todos.every((todo) => todo?.status === 'completed');
+  });
+}
+
+function noArgument(name: string, argument: string | undefined): void {
+  if (argument !== undefined) {
+    throw new Error(`Segment strategy "${name}" does not take an argument`);
+  }
+}
+
+const strategies = new Map<string, SegmentStrategy>();
+
+/**
+ * Register a segmentation strategy so it can be selected with --segment.
+ * Registering an existing name replaces that strategy.
+ */
+export function registerSegmentStrategy(strategy: SegmentStrategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+export function getSegmentStrategies(): SegmentStrategy[] {
+  return [...strategies.values()];
+}
+
+/**
+ * Create a segmenter from a --segment value such as "user-turn" or "time-gap=30".
+ * Throws an Error for unknown strategies or invalid arguments.
+ */
+export function createSegmenter(spec: string = DEFAULT_SEGMENT_STRATEGY): Segmenter {
+  const separator = spec.indexOf('=');
+  const name = separator === -1 ? spec : spec.substring(0, separator);
+  const argument = separator === -1 ? undefined : spec.substring(separator + 1);
+
+  const strategy = strategies.get(name);
+  if (!strategy) {
+    const known = getSegmentStrategies().map((s) => s.name).join(', ');
+    throw new Error(`Unknown segment strategy "${name}" (available: ${known})`);
+  }
+  return strategy.create(argument);
+}
+
+registerSegmentStrategy({
+  name: 'user-turn',
+  usage: 'user-turn',
+  description: 'New round at every user prompt (default)',
+  create(argument) {
+    noArgument('user-turn', argument);
+    return { isRoundStart: (entry) => isUserPrompt(entry) };
+  },
+});
+
+registerSegmentStrategy({
+  name: 'slash-command',
+  usage: 'slash-command',
+  description: 'New round at every slash command (e.g. /review); other prompts continue the round',
+  create(argument) {
+    noArgument('slash-command', argument);
+    return { isRoundStart: (entry) => isUserPrompt(entry) && isSlashCommand(entry) };
+  },
+});
+
+registerSegmentStrategy({
+  name: 'time-gap',
+  usage: 'time-gap=<minutes>',
+  description: 'New round at a user prompt sent at least <minutes> after the previous entry',
+  create(argument) {
+    const minutes = Number(argument);
+    if (argument === undefined || argument.trim() === '' || isNaN(minutes) || minutes <= 0) {
+      throw new Error('Segment strategy "time-gap" needs a positive number of minutes, e.g. time-gap=30');
+    }
+    const gapMs = minutes * 60_000;
+
+    return {
+      isRoundStart(entry, previous) {
+        if (!isUserPrompt(entry) || !entry.timestamp || !previous?.timestamp) {
+          return false;
+        }
+        const gap = new Date(entry.timestamp).getTime() - new Date(previous.timestamp).getTime();
+        return gap >= gapMs;
+      },
+    };
+  },
+});
+
+registerSegmentStrategy({
+  name: 'todo-completion',
+  usage: 'todo-completion',
+  description: 'New round at the first user prompt after a TodoWrite marks every todo completed',
+  create(argument) {
+    noArgument('todo-completion', argument);
+    let todosCompleted = false;
+
+    return {
+      isRoundStart(entry) {
+        if (completesTodoList(entry)) {
+          todosCompleted = true;
+          return false;
+        }
+        if (todosCompleted && isUserPrompt(entry)) {
+          todosCompleted = false;
+          return true;
+        }
+        return false;
+      },
+    };
+  },
+});
+
+registerSegmentStrategy({
+  name: 'whole-session',
+  usage: 'whole-session',
+  description: 'The whole session is a single round',
+  create(argument) {
+    noArgument('whole-session', argument);
+    return { isRoundStart: () => false };
+  },
+});
@@ -0,0 +1,181 @@
+// Stitch resumed and continued sessions (one .jsonl file each) into one trajectory
+import type { ClaudeRawEntry, EntrySource, ExtractOptions, ParseOptions, Round, RoundEntry } from './round-types.ts';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { extractRounds, streamSessionFile } from './round-extractor.ts';
+
+/**
+ * How a later session file refers to an earlier one:
+ * summary: a summary entry whose leafUuid is an entry of the earlier file
+ * parent: an entry whose parentUuid or logicalParentUuid is an entry of the earlier file
+ * reused-uuid: entries copied from the earlier file when the session was resumed
+ */
+export type SessionLinkKind = 'summary' | 'parent' | 'reused-uuid';
+
+export interface SessionLink {
+  from: string; // Earlier file
+  to: string; // Later file
+  kind: SessionLinkKind;
+  uuid: string; // First entry uuid that establishes the link
+}
+
+export interface StitchedSession {
+  files: string[]; // Linked files, oldest first
+  links: SessionLink[];
+  entries: ClaudeRawEntry[]; // All entries, copies of earlier entries removed
+  sources: Map<string, EntrySource>; // Entry uuid → file it was first written to
+}
+
+// What one file in the project directory contains and refers to
+interface SessionFileIndex {
+  file: string;
+  sessionId: string | null;
+  firstTimestamp: string;
+  uuids: Set<string>;
+  references: Array<{ uuid: string; kind: SessionLinkKind }>;
+}
+
+async function indexSessionFile(file: string, options: ParseOptions): Promise<SessionFileIndex> {
+  const index: SessionFileIndex = { file, sessionId: null, firstTimestamp: '', uuids: new Set(), references: [] };
+  // Unrelated files in the directory must not fail the stitch, so malformed lines are only skipped here
+  for await (const entry of streamSessionFile(file, { repair: options.repair })) {
+    if (!index.sessionId && typeof entry.sessionId === 'string') {
+      index.sessionId = entry.sessionId;
+    }
+    if (!index.firstTimestamp && entry.timestamp) {
+      index.firstTimestamp = entry.timestamp;
+    }
+    if (entry.type === 'summary' && typeof entry.leafUuid === 'string') {
+      index.references.push({ uuid: entry.leafUuid, kind: 'summary' });
+    }
+    for (const parent of [entry.parentUuid, entry.logicalParentUuid]) {
+      if (typeof parent === 'string' && !index.uuids.has(parent)) {
+        index.references.push({ uuid: parent, kind: 'parent' });
+      }
+    }
+    if (entry.uuid) {
+      index.uuids.add(entry.uuid);
+    }
+  }
+  return index;
+}
+
+/**
+ * Find the session files linked to filePath, directly or through other files,
+ * among the .jsonl files of its directory (a Claude Code project directory)
+ */
+export async function findLinkedSessions(filePath: string, options: ParseOptions = {}): Promise<{ files: string[]; links: SessionLink[] }> {
+  const dir = path.dirname(filePath);
+  const names = (await fs.readdir(dir)).filter((name) => name.endsWith('.jsonl')).sort();
+  const indexes: SessionFileIndex[] = [];
+  for (const name of names) {
+    const file = path.join(dir, name);
+    try {
+      indexes.push(await indexSessionFile(file, options));
+    } catch (error) {
+      if (path.resolve(file) === path.resolve(filePath)) {
+        throw error;
+      }
+    }
+  }
+  // Files without timestamps sort last; the same uuid belongs to the oldest file that contains it
+  indexes.sort((a, b) => (a.firstTimestamp || '\uffff').localeCompare(b.firstTimestamp || '\uffff'));
+
+  const owners = new Map<string, SessionFileIndex>();
+  for (const index of indexes) {
+    for (const uuid of index.uuids) {
+      if (!owners.has(uuid)) {
+        owners.set(uuid, index);
+      }
+    }
+  }
+
+  const links: SessionLink[] = [];
+  const linked = new Set<string>(); // "from\0to"
+  const addLink = (from: SessionFileIndex, to: SessionFileIndex, kind: SessionLinkKind, uuid: string) => {
+    const key = `${from.file}\0${to.file}`;
+    if (from !== to && !linked.has(key)) {
+      linked.add(key);
+      links.push({ from: from.file, to: to.file, kind, uuid });
+    }
+  };
+  for (const index of indexes) {
+    for (const reference of index.references) {
+      const owner = owners.get(reference.uuid);
+      if (owner && !index.uuids.has(reference.uuid)) {
+        addLink(owner, index, reference.kind, reference.uuid);
+      }
+    }
+    for (const uuid of index.uuids) {
+      addLink(owners.get(uuid)!, index, 'reused-uuid', uuid);
+    }
+  }
+
+  // Everything connected to filePath, in either direction
+  const start = path.resolve(filePath);
+  const component = new Set([indexes.find((index) => path.resolve(index.file) === start)?.file ?? filePath]);
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const link of links) {
+      if (component.has(link.from) !== component.has(link.to)) {
+        component.add(link.from);
+        component.add(link.to);
+        grown = true;
+      }
+    }
+  }
+
+  return {
+    files: indexes.map((index) => index.file).filter((file) => component.has(file)),
+    links: links.filter((link) => component.has(link.from)),
+  };
+}
+
+/**
+ * Read the sessions linked to filePath as one continuous list of entries.
+ * Entries copied into a resumed session are kept only where they were first written,
+ * and the summary entries that merely point back at an earlier file are dropped.
+ */
+export async function stitchSessions(filePath: string, options: ParseOptions = {}): Promise<StitchedSession> {
+  const { files, links } = await findLinkedSessions(filePath, options);
+  const entries: ClaudeRawEntry[] = [];
+  const sources = new Map<string, EntrySource>();
+
+  for (const file of files) {
+    const ownUuids = new Set<string>();
+    const fileEntries: ClaudeRawEntry[] = [];
+    for await (const entry of streamSessionFile(file, options)) {
+      if (entry.uuid) {
+        if (sources.has(entry.uuid)) continue;
+        ownUuids.add(entry.uuid);
+        sources.set(entry.uuid, { file, sessionId: typeof entry.sessionId === 'string' ? entry.sessionId : null });
+      }
+      fileEntries.push(entry);
+    }
+    entries.push(
+      ...fileEntries.filter((entry) => !(entry.type === 'summary' && typeof entry.leafUuid === 'string' && sources.has(entry.leafUuid) && !ownUuids.has(entry.leafUuid)))
+    );
+  }
+
+  return { files, links, entries, sources };
+}
+
+/**
+ * Extract the rounds of a stitched session, numbered continuously across files, with
+ * the source of every entry. Entries without a uuid take the source of the entry before them.
+ */
+export function extractStitchedRounds(session: StitchedSession, options: ExtractOptions = {}): Round[] {
+  let previous: EntrySource | undefined;
+  const withSource = (entry: RoundEntry): RoundEntry => {
+    const source = session.sources.get(entry.uuid) ?? previous;
+    previous = source;
+    return source ? { ...entry, source } : entry;
+  };
+
+  return extractRounds(session.entries, options).map((round) => ({
+    ...round,
+    entries: round.entries.map(withSource),
+    ...(round.sidechains ? { sidechains: round.sidechains.map((sidechain) => ({ ...sidechain, entries: sidechain.entries.map(withSource) })) } : {}),
+  }));
+}
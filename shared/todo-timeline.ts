@@ -0,0 +1,115 @@
+// Timeline of the agent's todo list (TodoWrite calls) across the rounds of a session
+import type { ClaudeRawEntry, Round, RoundTodos, TodoEvent, TodoItem, TodoStatus, ToolCall } from './round-types.ts';
+
+export interface TodoTimeline {
+  events: TodoEvent[];
+  items: TodoItem[]; // The list as the session left it
+  created: number;
+  completed: number;
+  dropped: number;
+}
+
+const TODO_STATUSES: TodoStatus[] = ['pending', 'in_progress', 'completed'];
+
+function toTodoItems(todos: unknown[]): TodoItem[] {
+  const items: TodoItem[] = [];
+  for (const todo of todos) {
+    if (typeof todo !== 'object' || todo === null) continue;
+    const fields = todo as Record<string, unknown>;
+    if (typeof fields.content !== 'string') continue;
+    const status = TODO_STATUSES.includes(fields.status as TodoStatus) ? (fields.status as TodoStatus) : 'pending';
+    const id = typeof fields.id === 'string' || typeof fields.id === 'number' ? String(fields.id) : fields.content;
+    items.push({ id, content: fields.content, status, ...(typeof fields.activeForm === 'string' ? { activeForm: fields.activeForm } : {}) });
+  }
+  return items;
+}
+
+/**
+ * The todo lists an entry writes: the input of each successful TodoWrite call,
+ * or else the entry's own non-empty todos field (a snapshot kept by older Claude Code versions)
+ */
+function getTodoLists(entry: ClaudeRawEntry, failed: Set<string>): TodoItem[][] {
+  const content = entry.message?.content;
+  const lists: TodoItem[][] = [];
+  if (entry.type === 'assistant' && Array.isArray(content)) {
+    for (const item of content as Array<Record<string, unknown>>) {
+      const input = item.type === 'tool_use' && item.name === 'TodoWrite' ? (item.input as Record<string, unknown> | undefined) : undefined;
+      if (Array.isArray(input?.todos) && !failed.has(String(item.id))) {
+        lists.push(toTodoItems(input.todos));
+      }
+    }
+  }
+  if (lists.length === 0 && Array.isArray(entry.todos) && entry.todos.length > 0) {
+    lists.push(toTodoItems(entry.todos));
+  }
+  return lists;
+}
+
+/**
+ * Follow the main agent's todo list from round to round. Every list the agent writes
+ * replaces the previous one; the differences between the two become events.
+ * Subagents keep their own lists, so sidechain entries are ignored.
+ */
+export function createTodoTracker() {
+  let current: TodoItem[] | null = null;
+
+  return {
+    /**
+     * Events of one round, or null while the session has not written a todo list yet
+     */
+    addRound(roundNumber: number, entries: ClaudeRawEntry[], toolCalls: ToolCall[]): RoundTodos | null {
+      const failed = new Set(toolCalls.filter((call) => call.isError).map((call) => call.id));
+      const events: TodoEvent[] = [];
+
+      for (const entry of entries) {
+        if (entry.isSidechain) continue;
+        for (const items of getTodoLists(entry, failed)) {
+          const event = (type: TodoEvent['type'], item: TodoItem) => {
+            events.push({ type, id: item.id, content: item.content, roundNumber, timestamp: entry.timestamp ?? null, uuid: entry.uuid ?? null });
+          };
+          const previous = new Map((current ?? []).map((item) => [item.id, item]));
+          for (const item of items) {
+            const before = previous.get(item.id);
+            if (!before) {
+              event('created', item);
+              if (item.status !== 'pending') event(item.status, item);
+            } else if (before.status !== item.status) {
+              const reopened = before.status === 'completed' || item.status === 'pending';
+              event(item.status === 'completed' ? 'completed' : reopened ? 'reopened' : 'in_progress', item);
+            }
+            previous.delete(item.id);
+          }
+          // Completed items are cleared from the list when their work is done; others were abandoned
+          for (const item of previous.values()) {
+            if (item.status !== 'completed') event('dropped', item);
+          }
+          current = items;
+        }
+      }
+
+      return current ? { events, items: current } : null;
+    },
+  };
+}
+
+/**
+ * Join the todo events of all rounds into one timeline
+ */
+export function buildTodoTimeline(rounds: Round[]): TodoTimeline {
+  const events = rounds.flatMap((round) => round.todos?.events ?? []);
+  const last = [...rounds].reverse().find((round) => round.todos);
+  return {
+    events,
+    items: last?.todos?.items ?? [],
+    created: events.filter((event) => event.type === 'created').length,
+    completed: events.filter((event) => event.type === 'completed').length,
+    dropped: events.filter((event) => event.type === 'dropped').length,
+  };
+}
+
+/**
+ * Share of items completed in a list, from 0 to 1 (0 for an empty list)
+ */
+export function todoProgress(items: TodoItem[]): number {
+  return items.length === 0 ? 0 : items.filter((item) => item.status === 'completed').length / items.length;
+}
@@ -0,0 +1,125 @@
+// Pairing of tool_use and tool_result content blocks into structured tool calls
+import type { ClaudeRawEntry, RoundListItem, ToolCall } from './round-types.ts';
+
+/**
+ * Convert tool_result content (a string or an array of content blocks) to text
+ */
+export function toolResultText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((block) => {
+        if (typeof block === 'object' && block !== null) {
+          const item = block as Record<string, unknown>;
+          if (item.type === 'text' && typeof item.text === 'string') return item.text;
+          if (item.type === 'image') return '[image]';
+        }
+        return typeof block === 'string' ? block : JSON.stringify(block);
+      })
+      .join('\n');
+  }
+  if (content === undefined || content === null) {
+    return '';
+  }
+  return JSON.stringify(content);
+}
+
+function getContentItems(entry: ClaudeRawEntry): Array<Record<string, unknown>> {
+  const content = entry.message?.content;
+  return Array.isArray(content) ? (content as Array<Record<string, unknown>>) : [];
+}
+
+function getLatency(start: string | null, end: string | null): number | null {
+  if (!start || !end) return null;
+  const latency = new Date(end).getTime() - new Date(start).getTime();
+  return isNaN(latency) ? null : latency;
+}
+
+/**
+ * Pair every tool_use with the tool_result that answers it, in file order.
+ * A tool_result only matches a tool_use that appeared before it; results with no
+ * such tool_use are reported as orphaned, tool_uses never answered as unanswered.
+ * Calls are returned in the order their tool_use (or orphaned result) appears.
+ */
+export function pairToolCalls(entries: ClaudeRawEntry[]): ToolCall[] {
+  const calls: ToolCall[] = [];
+  const pending = new Map<string, ToolCall>();
+
+  for (const entry of entries) {
+    for (const item of getContentItems(entry)) {
+      if (item.type === 'tool_use' && typeof item.id === 'string') {
+        const call: ToolCall = {
+          id: item.id,
+          name: typeof item.name === 'string' ? item.name : null,
+          input: item.input ?? null,
+          output: null,
+          isError: false,
+          status: 'unanswered',
+          startTimestamp: entry.timestamp ?? null,
+          endTimestamp: null,
+          latencyMs: null,
+          toolUseUuid: entry.uuid ?? null,
+          toolResultUuid: null,
+        };
+        calls.push(call);
+        pending.set(item.id, call);
+      } else if (item.type === 'tool_result' && typeof item.tool_use_id === 'string') {
+        const call = pending.get(item.tool_use_id);
+        const output = toolResultText(item.content);
+        const isError = item.is_error === true;
+        const endTimestamp = entry.timestamp ?? null;
+
+        if (call) {
+          pending.delete(item.tool_use_id);
+          call.output = output;
+          call.isError = isError;
+          call.status = 'completed';
+          call.endTimestamp = endTimestamp;
+          call.latencyMs = getLatency(call.startTimestamp, endTimestamp);
+          call.toolResultUuid = entry.uuid ?? null;
+        } else {
+          calls.push({
+            id: item.tool_use_id,
+            name: null,
+            input: null,
+            output,
+            isError,
+            status: 'orphaned',
+            startTimestamp: null,
+            endTimestamp,
+            latencyMs: null,
+            toolUseUuid: null,
+            toolResultUuid: entry.uuid ?? null,
+          });
+        }
+      }
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Count tool calls by outcome for round listings
+ */
+export function summarizeToolCalls(toolCalls: ToolCall[]): RoundListItem['toolCalls'] {
+  return {
+    total: toolCalls.length,
+    errors: toolCalls.filter((call) => call.isError).length,
+    unanswered: toolCalls.filter((call) => call.status === 'unanswered').length,
+    orphaned: toolCalls.filter((call) => call.status === 'orphaned').length,
+  };
+}
+
+/**
+ * Format a latency in ms for display (e.g. "850ms", "2.4s", "3m 05s")
+ */
+export function formatLatency(latencyMs: number): string {
+  if (latencyMs < 1000) return `${latencyMs}ms`;
+  if (latencyMs < 60_000) return `${(latencyMs / 1000).toFixed(1)}s`;
+  const minutes = Math.floor(latencyMs / 60_000);
+  const seconds = Math.round((latencyMs % 60_000) / 1000);
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
@@ -0,0 +1,178 @@
+// Token usage and cost accounting for rounds
+import type { ClaudeRawEntry, ModelPricing, PricingTable, RoundUsage, TokenUsage } from './round-types.ts';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const DEFAULT_PRICING_FILE = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../config/pricing.json');
+
+function emptyTokenUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+function addTokenUsage(target: TokenUsage, usage: TokenUsage): void {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.cacheReadTokens += usage.cacheReadTokens;
+  target.cacheWriteTokens += usage.cacheWriteTokens;
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+function toTokenUsage(usage: Record<string, unknown>): TokenUsage {
+  const count = (value: unknown) => (typeof value === 'number' && isFinite(value) ? value : 0);
+  return {
+    inputTokens: count(usage.input_tokens),
+    outputTokens: count(usage.output_tokens),
+    cacheReadTokens: count(usage.cache_read_input_tokens),
+    cacheWriteTokens: count(usage.cache_creation_input_tokens),
+  };
+}
+
+/**
+ * Load a pricing table (see config/pricing.json).
+ * Returns undefined if the file does not exist; throws if it is not a valid table.
+ */
+export async function loadPricingTable(filePath: string = DEFAULT_PRICING_FILE): Promise<PricingTable | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  const table = JSON.parse(content) as PricingTable;
+  if (!table || typeof table.models !== 'object' || table.models === null) {
+    throw new Error(`${filePath}: expected an object with a "models" map`);
+  }
+  return table;
+}
+
+/**
+ * Find the price of a model. Keys are matched as prefixes of the model id, longest first,
+ * so "claude-sonnet-4-5" covers "claude-sonnet-4-5-20250929".
+ */
+export function findModelPricing(pricing: PricingTable, model: string): ModelPricing | undefined {
+  const key = Object.keys(pricing.models)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? pricing.models[key] : undefined;
+}
+
+function estimateCost(usage: TokenUsage, price: ModelPricing): number {
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * price.cacheRead +
+    usage.cacheWriteTokens * price.cacheWrite
+  ) / 1_000_000;
+}
+
+/**
+ * Sum token usage over assistant entries and estimate its cost.
+ * Streamed responses are written as several entries sharing a message.id, each repeating
+ * the message's usage, so only the last usage seen for each message id is counted.
+ */
+export function computeUsage(entries: ClaudeRawEntry[], pricing?: PricingTable): RoundUsage {
+  const byMessage = new Map<string, { model: string; usage: TokenUsage }>();
+
+  entries.forEach((entry, index) => {
+    const message = entry.message as Record<string, unknown> | undefined;
+    if (entry.type !== 'assistant' || typeof message?.usage !== 'object' || message.usage === null) {
+      return;
+    }
+    const key = typeof message.id === 'string' ? message.id : `#${index}`;
+    byMessage.set(key, {
+      model: typeof message.model === 'string' ? message.model : 'unknown',
+      usage: toTokenUsage(message.usage as Record<string, unknown>),
+    });
+  });
+
+  const byModel = new Map<string, TokenUsage>();
+  for (const { model, usage } of byMessage.values()) {
+    const modelUsage = byModel.get(model) ?? emptyTokenUsage();
+    addTokenUsage(modelUsage, usage);
+    byModel.set(model, modelUsage);
+  }
+
+  const total = emptyTokenUsage();
+  const unpricedModels: string[] = [];
+  let cost = 0;
+  let pricedTokens = 0;
+
+  for (const [model, usage] of byModel) {
+    addTokenUsage(total, usage);
+    if (!pricing || totalTokens(usage) === 0) continue;
+
+    const price = findModelPricing(pricing, model);
+    if (price) {
+      cost += estimateCost(usage, price);
+      pricedTokens += totalTokens(usage);
+    } else {
+      unpricedModels.push(model);
+    }
+  }
+
+  // A cost covering none of the tokens would read as "free"
+  const estimatedCost = pricing && (pricedTokens > 0 || totalTokens(total) === 0) ? cost : null;
+
+  return {
+    ...total,
+    models: [...byModel.keys()],
+    estimatedCost,
+    unpricedModels,
+  };
+}
+
+/**
+ * Aggregate the usage of several rounds (e.g. all rounds of a file)
+ */
+export function sumUsage(usages: RoundUsage[]): RoundUsage {
+  const total = emptyTokenUsage();
+  const models = new Set<string>();
+  const unpricedModels = new Set<string>();
+  let estimatedCost: number | null = null;
+
+  for (const usage of usages) {
+    addTokenUsage(total, usage);
+    usage.models.forEach((model) => models.add(model));
+    usage.unpricedModels.forEach((model) => unpricedModels.add(model));
+    if (usage.estimatedCost !== null) {
+      estimatedCost = (estimatedCost ?? 0) + usage.estimatedCost;
+    }
+  }
+
+  return { ...total, models: [...models], estimatedCost, unpricedModels: [...unpricedModels] };
+}
+
+export function formatTokenCount(count: number): string {
+  return count.toLocaleString('en-US');
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+/**
+ * One-line usage summary, e.g. "1,200 in · 350 out · 10,000 cache read · 500 cache write · ~$0.0123"
+ */
+export function formatUsage(usage: RoundUsage): string {
+  const parts = [
+    `${formatTokenCount(usage.inputTokens)} in`,
+    `${formatTokenCount(usage.outputTokens)} out`,
+    `${formatTokenCount(usage.cacheReadTokens)} cache read`,
+    `${formatTokenCount(usage.cacheWriteTokens)} cache write`,
+  ];
+  if (usage.estimatedCost !== null) {
+    parts.push(`~${formatCost(usage.estimatedCost)}`);
+  }
+  if (usage.unpricedModels.length > 0) {
+    parts.push(`no price for ${usage.unpricedModels.join(', ')}`);
+  }
+  return parts.join(' · ');
+}